@@ -0,0 +1,218 @@
+import { MarkdownView, Notice } from 'obsidian';
+import { IntegrityReportModal } from '../modals/IntegrityReportModal';
+import { getCompleteChain } from '../graph/ChainQueries';
+import { ExportOptions } from '../services/ThreadExportService';
+import { SplitMode } from '../services/ThreadEditService';
+import { getMainLineNext } from '../graph/BranchDetector';
+import { canMoveNote, insertNoteAfter, mergeWithNextNote, moveNoteBy, redoThreadOperation, splitActiveNote, splitAtCursor, undoThreadOperation } from './ThreadActions';
+import type ThreadsPlugin from '../main';
+
+/**
+ * Registers all plugin commands.
+ *
+ * Like the event handlers, commands live outside main.ts so the plugin
+ * class stays focused on lifecycle. Command IDs are stable and must not
+ * be renamed once released.
+ *
+ * @param plugin - The plugin instance
+ */
+export function registerCommands(plugin: ThreadsPlugin): void {
+    plugin.addCommand({
+        id: "open-thread-explorer",
+        name: "Open thread explorer",
+        callback: () => plugin.activateThreadExplorer(),
+    });
+
+    plugin.addCommand({
+        id: "rebuild-thread-graph",
+        name: "Rebuild thread graph",
+        callback: async () => {
+            await plugin.rebuildGraph();
+            new Notice("Thread graph rebuilt");
+        },
+    });
+
+    plugin.addCommand({
+        id: "check-thread-integrity",
+        name: "Check thread integrity",
+        callback: () => new IntegrityReportModal(plugin).open(),
+    });
+
+    plugin.addCommand({
+        id: "show-chain-view-debug-info",
+        name: "Show chain view debug info",
+        callback: () => {
+            const { views, liveEditors } = plugin.chainViewManager.getDebugInfo();
+            const mounted = views.reduce((sum, view) => sum + view.editors, 0);
+            console.table(views);
+            new Notice(`Chain views: ${views.length}\nMounted editors: ${mounted}\nLive editors: ${liveEditors}`);
+        },
+    });
+
+    plugin.addCommand({
+        id: "export-thread-to-note",
+        name: "Export thread as a single note",
+        checkCallback: (checking) => {
+            const path = getActiveThreadPath(plugin);
+            if (!path) return false;
+            if (!checking) {
+                plugin.threadExportService.exportToNote(path, getExportOptions(plugin));
+            }
+            return true;
+        },
+    });
+
+    plugin.addCommand({
+        id: "copy-thread-as-markdown",
+        name: "Copy thread as markdown",
+        checkCallback: (checking) => {
+            const path = getActiveThreadPath(plugin);
+            if (!path) return false;
+            if (!checking) {
+                plugin.threadExportService.copyToClipboard(path, getExportOptions(plugin));
+            }
+            return true;
+        },
+    });
+
+    const splitCommands: { mode: SplitMode; id: string; name: string }[] = [
+        { mode: "headings", id: "split-note-at-headings", name: "Split note into thread at headings" },
+        { mode: "rules", id: "split-note-at-rules", name: "Split note into thread at horizontal rules" },
+        { mode: "marker", id: "split-note-at-markers", name: "Split note into thread at markers" },
+    ];
+
+    for (const { mode, id, name } of splitCommands) {
+        plugin.addCommand({
+            id,
+            name,
+            checkCallback: (checking) => {
+                const view = plugin.app.workspace.getActiveViewOfType(MarkdownView);
+                const file = view?.file;
+                if (!view || !file || !plugin.threadEditService) return false;
+                if (!checking) {
+                    splitActiveNote(plugin, view, mode);
+                }
+                return true;
+            },
+        });
+    }
+
+    plugin.addCommand({
+        id: "continue-thread",
+        name: "Continue thread",
+        checkCallback: (checking) => {
+            const file = plugin.app.workspace.getActiveFile();
+            if (!file || !plugin.graphService?.isReady || !plugin.noteCreationService) return false;
+            if (!checking) {
+                plugin.noteCreationService.createChainedNote(file.path);
+            }
+            return true;
+        },
+    });
+
+    // Uses the editor's own file, so it also works in the chain view's embedded editors
+    plugin.addCommand({
+        id: "split-at-cursor",
+        name: "Split here into next note",
+        editorCheckCallback: (checking, editor, ctx) => {
+            const file = ctx.file;
+            if (!file || !plugin.graphService?.isReady || !plugin.threadEditService) return false;
+            if (!checking) {
+                splitAtCursor(plugin, editor, ctx, file);
+            }
+            return true;
+        },
+    });
+
+    plugin.addCommand({
+        id: "insert-note-after",
+        name: "Insert note after this one",
+        checkCallback: (checking) => {
+            const file = plugin.app.workspace.getActiveFile();
+            if (!file || !plugin.graphService?.isReady || !plugin.threadEditService) return false;
+            if (!checking) {
+                insertNoteAfter(plugin, file.path);
+            }
+            return true;
+        },
+    });
+
+    plugin.addCommand({
+        id: "merge-with-next-note",
+        name: "Merge note with next note",
+        checkCallback: (checking) => {
+            const file = plugin.app.workspace.getActiveFile();
+            if (!file || !plugin.graphService?.isReady || !plugin.threadEditService) return false;
+            if (!getMainLineNext(plugin.graph, file.path, plugin.branchSelections)) return false;
+            if (!checking) {
+                mergeWithNextNote(plugin, file.path);
+            }
+            return true;
+        },
+    });
+
+    const moveCommands: { direction: -1 | 1; id: string; name: string }[] = [
+        { direction: -1, id: "move-note-up", name: "Move note up in thread" },
+        { direction: 1, id: "move-note-down", name: "Move note down in thread" },
+    ];
+
+    for (const { direction, id, name } of moveCommands) {
+        plugin.addCommand({
+            id,
+            name,
+            checkCallback: (checking) => {
+                const file = plugin.app.workspace.getActiveFile();
+                if (!file || !plugin.graphService?.isReady || !plugin.threadEditService) return false;
+                if (!canMoveNote(plugin, file.path, direction)) return false;
+                if (!checking) {
+                    moveNoteBy(plugin, file.path, direction);
+                }
+                return true;
+            },
+        });
+    }
+
+    plugin.addCommand({
+        id: "undo-thread-operation",
+        name: "Undo last thread operation",
+        checkCallback: (checking) => {
+            if (!plugin.graphService?.undoLabel) return false;
+            if (!checking) {
+                undoThreadOperation(plugin);
+            }
+            return true;
+        },
+    });
+
+    plugin.addCommand({
+        id: "redo-thread-operation",
+        name: "Redo last thread operation",
+        checkCallback: (checking) => {
+            if (!plugin.graphService?.redoLabel) return false;
+            if (!checking) {
+                redoThreadOperation(plugin);
+            }
+            return true;
+        },
+    });
+}
+
+/**
+ * Get the active note's path if it belongs to a thread of at least two notes.
+ */
+function getActiveThreadPath(plugin: ThreadsPlugin): string | null {
+    const file = plugin.app.workspace.getActiveFile();
+    if (!file || !plugin.graphService?.isReady) return null;
+    return getCompleteChain(plugin.graph, file.path).length > 1 ? file.path : null;
+}
+
+/**
+ * Read the export options from the settings.
+ */
+function getExportOptions(plugin: ThreadsPlugin): ExportOptions {
+    return {
+        separator: plugin.settings.exportSeparator,
+        resolveEmbeds: plugin.settings.exportResolveEmbeds,
+        rewriteLinks: plugin.settings.exportRewriteLinks,
+    };
+}
@@ -0,0 +1,253 @@
+import { Editor, MarkdownFileInfo, MarkdownView, normalizePath, Notice, TFile } from 'obsidian';
+import { getMainLine, getMainLineNext } from '../graph/BranchDetector';
+import { HistoryResult } from '../services/GraphService';
+import { SplitMode } from '../services/ThreadEditService';
+import { saveEditorContent } from '../view/ContentExtractor';
+import type ThreadsPlugin from '../main';
+
+/**
+ * Thread actions shared by commands and the chain view's context menus.
+ *
+ * Each action saves pending edits, runs the structural edit through
+ * ThreadEditService and re-renders the chain view. Structural edits are
+ * recorded in GraphService's thread history, so they can be undone.
+ */
+
+/**
+ * Save the active note and split it into a thread.
+ */
+export async function splitActiveNote(plugin: ThreadsPlugin, view: MarkdownView, mode: SplitMode): Promise<void> {
+    if (!view.file) return;
+
+    // Make sure pending edits are on disk before the file is rewritten
+    await view.save();
+    const created = await plugin.threadEditService.splitNote(view.file, mode, plugin.settings.splitMarker);
+    if (created.length > 0) {
+        await plugin.renderChainView();
+    }
+}
+
+/**
+ * Merge a note with the note that follows it on the main line.
+ *
+ * @param plugin - The plugin instance
+ * @param path - The note that absorbs its next note
+ */
+export async function mergeWithNextNote(plugin: ThreadsPlugin, path: string): Promise<void> {
+    const file = plugin.app.vault.getAbstractFileByPath(path);
+    const nextPath = getMainLineNext(plugin.graph, path, plugin.branchSelections);
+    if (!(file instanceof TFile) || !nextPath) {
+        new Notice("There is no next note to merge with");
+        return;
+    }
+
+    await saveActiveView(plugin);
+    if (await plugin.threadEditService.mergeWithNext(file, nextPath)) {
+        await plugin.renderChainView();
+    }
+}
+
+/**
+ * Insert a new note right after a note, before its main-line successor, and open it.
+ *
+ * @param plugin - The plugin instance
+ * @param path - The note to insert after
+ */
+export async function insertNoteAfter(plugin: ThreadsPlugin, path: string): Promise<void> {
+    const successorPath = getMainLineNext(plugin.graph, path, plugin.branchSelections);
+
+    await saveActiveView(plugin);
+    const newFile = await plugin.threadEditService.insertNoteAfter(path, successorPath);
+    if (!newFile) {
+        new Notice("Failed to insert note");
+        return;
+    }
+
+    await plugin.app.workspace.getLeaf(false).openFile(newFile);
+    await plugin.renderChainView();
+}
+
+/**
+ * Move the text after the cursor into a new note inserted right after the
+ * edited note, then open the new note with the cursor at the moved text.
+ * Works in the main editor and in the chain view's embedded editors.
+ *
+ * @param plugin - The plugin instance
+ * @param editor - The editor holding the cursor
+ * @param ctx - The view or embedded editor the editor belongs to
+ * @param file - The note the editor shows
+ */
+export async function splitAtCursor(plugin: ThreadsPlugin, editor: Editor, ctx: MarkdownView | MarkdownFileInfo, file: TFile): Promise<void> {
+    const cursor = editor.getCursor();
+    const end = editor.offsetToPos(editor.getValue().length);
+    const movedText = editor.getRange(cursor, end).trim();
+    if (!movedText) {
+        new Notice("Nothing after the cursor to split");
+        return;
+    }
+
+    const successorPath = getMainLineNext(plugin.graph, file.path, plugin.branchSelections);
+    const newFile = await plugin.graphService.transaction(`Split ${file.basename} at cursor`, async transaction => {
+        // Save first, so undoing the split brings the note back with the moved text in it
+        await saveEditor(plugin, editor, ctx, file);
+        const before = await plugin.app.vault.read(file);
+
+        // The edited note keeps the text before the cursor. Save it right away,
+        // so the text isn't in both notes until the editor's debounced save
+        editor.replaceRange("", cursor, end);
+        await saveEditor(plugin, editor, ctx, file);
+        plugin.graphService.recordContentChange(file.path, before, await plugin.app.vault.read(file), transaction);
+
+        return plugin.threadEditService.insertNoteAfter(file.path, successorPath, movedText, transaction);
+    });
+    if (!newFile) {
+        new Notice("Failed to split note");
+        return;
+    }
+
+    const leaf = plugin.app.workspace.getLeaf(false);
+    await leaf.openFile(newFile);
+    await plugin.renderChainView();
+
+    // Put the cursor where the moved text starts (after frontmatter and template content)
+    if (leaf.view instanceof MarkdownView) {
+        const newEditor = leaf.view.editor;
+        const offset = Math.max(0, newEditor.getValue().indexOf(movedText));
+        newEditor.setCursor(newEditor.offsetToPos(offset));
+        newEditor.focus();
+    }
+}
+
+/**
+ * Move a note on the main line of its thread so it follows another note.
+ *
+ * @param plugin - The plugin instance
+ * @param path - The note to move
+ * @param afterPath - The note to move it after, or null to make it the first note
+ */
+export async function moveNoteAfter(plugin: ThreadsPlugin, path: string, afterPath: string | null): Promise<void> {
+    const mainLine = getMainLine(plugin.graph, path, plugin.branchSelections);
+
+    await saveActiveView(plugin);
+    if (await plugin.threadEditService.moveNote(mainLine, path, afterPath)) {
+        await plugin.renderChainView();
+    }
+}
+
+/**
+ * Move a note one position up or down on the main line of its thread.
+ *
+ * @param plugin - The plugin instance
+ * @param path - The note to move
+ * @param direction - -1 to move up, 1 to move down
+ */
+export async function moveNoteBy(plugin: ThreadsPlugin, path: string, direction: -1 | 1): Promise<void> {
+    const mainLine = getMainLine(plugin.graph, path, plugin.branchSelections);
+    const index = mainLine.indexOf(path);
+    if (index === -1 || index + direction < 0 || index + direction >= mainLine.length) return;
+
+    // Moving up means following the note two positions above; moving down, the note below
+    const afterPath = direction === -1 ? mainLine[index - 2] ?? null : mainLine[index + 1];
+    await moveNoteAfter(plugin, path, afterPath);
+}
+
+/**
+ * Whether a note can move one position up or down on its thread's main line.
+ */
+export function canMoveNote(plugin: ThreadsPlugin, path: string, direction: -1 | 1): boolean {
+    const mainLine = getMainLine(plugin.graph, path, plugin.branchSelections);
+    const index = mainLine.indexOf(path);
+    return index !== -1 && index + direction >= 0 && index + direction < mainLine.length;
+}
+
+/**
+ * Undo the last thread operation (see `GraphService.undo`) and re-render the chain view.
+ */
+export async function undoThreadOperation(plugin: ThreadsPlugin): Promise<void> {
+    await saveActiveView(plugin);
+    showHistoryResult(await plugin.graphService.undo(), "undo");
+    await plugin.renderChainView();
+}
+
+/**
+ * Redo the last undone thread operation and re-render the chain view.
+ */
+export async function redoThreadOperation(plugin: ThreadsPlugin): Promise<void> {
+    await saveActiveView(plugin);
+    showHistoryResult(await plugin.graphService.redo(), "redo");
+    await plugin.renderChainView();
+}
+
+/**
+ * Tell the user what an undo or redo did.
+ */
+function showHistoryResult(result: HistoryResult, action: "undo" | "redo"): void {
+    switch (result.status) {
+        case "empty":
+            new Notice(`Nothing to ${action}`);
+            break;
+        case "done":
+            new Notice(`${action === "undo" ? "Undid" : "Redid"}: ${result.label}`);
+            break;
+        case "blocked":
+            new Notice(`Can't ${action} "${result.label}": ${result.reason}`, 10000);
+            break;
+        case "failed":
+            new Notice(`Failed to ${action} "${result.label}" completely. Run "Check thread integrity" to fix the thread.`, 10000);
+            break;
+    }
+}
+
+/**
+ * Save an editor's content to its note, from the main editor or an embedded one.
+ */
+async function saveEditor(plugin: ThreadsPlugin, editor: Editor, ctx: MarkdownView | MarkdownFileInfo, file: TFile): Promise<void> {
+    if (ctx instanceof MarkdownView) {
+        await ctx.save();
+    } else {
+        // Embedded editors show the note without its frontmatter
+        await saveEditorContent(plugin.app, file.path, editor.getValue());
+    }
+}
+
+/**
+ * Save the active MarkdownView so the files we rewrite include its latest edits.
+ */
+async function saveActiveView(plugin: ThreadsPlugin): Promise<void> {
+    const view = plugin.app.workspace.getActiveViewOfType(MarkdownView);
+    if (view) {
+        await view.save();
+    }
+}
+
+/**
+ * Create a note that other notes link to but that doesn't exist yet.
+ * A bare name is created where Obsidian puts new notes; a link with a
+ * path is created at that path. The linking notes join its thread once
+ * the file exists (see `GraphService.handleCreate`).
+ *
+ * @param plugin - The plugin instance
+ * @param linkTarget - The missing note's graph key (its link text or former path)
+ * @param sourcePath - The path of a note linking to it
+ */
+export async function createMissingNote(plugin: ThreadsPlugin, linkTarget: string, sourcePath: string): Promise<void> {
+    const linkPath = linkTarget.replace(/\.md$/, "");
+    const folder = linkPath.includes("/")
+        ? ""
+        : plugin.app.fileManager.getNewFileParent(sourcePath).path;
+    const path = normalizePath(folder && folder !== "/" ? `${folder}/${linkPath}.md` : `${linkPath}.md`);
+
+    try {
+        const parent = path.includes("/") ? path.slice(0, path.lastIndexOf("/")) : "";
+        if (parent && !plugin.app.vault.getAbstractFileByPath(parent)) {
+            await plugin.app.vault.createFolder(parent);
+        }
+        await plugin.app.vault.create(path, "");
+    } catch (error) {
+        console.error(`Failed to create ${path}:`, error);
+        new Notice(`Failed to create ${path}`);
+        return;
+    }
+
+    await plugin.renderChainView();
+}
@@ -1,6 +1,10 @@
-import { Editor, MarkdownView, Platform, TFile } from 'obsidian';
+import { editorInfoField, MarkdownView, Notice, parseYaml, Platform, TFile } from 'obsidian';
+import { EditorView } from '@codemirror/view';
+import { DeleteActionModal } from '../modals/DeleteActionModal';
+import { TriggerRange } from '../services/QuickCreateDetector';
 import { debounce } from '../utility/debounce';
-import { renderChainView } from '../renderChainView';
+import { getNoteName } from '../utility/utils';
+import { splitFrontmatter } from '../view/ContentExtractor';
 import type ThreadsPlugin from '../main';
 
 /**
@@ -12,9 +16,9 @@ import type ThreadsPlugin from '../main';
  * @param plugin - The plugin instance
  */
 export function registerEvents(plugin: ThreadsPlugin): void {
-    // Register empty-line detection only on desktop
+    // Register quick-create detection only on desktop
     if (!Platform.isMobile) {
-        registerEditorChangeEvent(plugin);
+        registerQuickCreateExtension(plugin);
     }
     registerVaultEvents(plugin);
     registerMetadataCacheEvents(plugin);
@@ -22,78 +26,128 @@ export function registerEvents(plugin: ThreadsPlugin): void {
 }
 
 /**
- * Listen to editor changes for detecting empty line pattern (desktop only).
- * This fires for the native editor - gives us direct access to the file.
+ * Watch the main editors for the quick-create trigger (desktop only).
+ * Registered as a CodeMirror extension so detection gets the changed ranges
+ * instead of reading the whole document on every change.
  */
-function registerEditorChangeEvent(plugin: ThreadsPlugin): void {
-    plugin.registerEvent(
-        plugin.app.workspace.on("editor-change", (editor: Editor, view) => {
-            if (view instanceof MarkdownView && !plugin.isCreatingNote) {
-                handleEditorChange(plugin, editor, view);
-            }
-        })
-    );
-}
+function registerQuickCreateExtension(plugin: ThreadsPlugin): void {
+    plugin.registerEditorExtension(EditorView.updateListener.of((update) => {
+        if (plugin.isCreatingNote) return;
 
-/**
- * Handle editor changes to detect the empty line pattern.
- * Uses editor-change event which gives direct access to the file being edited.
- */
-function handleEditorChange(plugin: ThreadsPlugin, editor: Editor, view: MarkdownView): void {
-    const content = editor.getValue();
+        // Embedded editors in the chain view detect the trigger themselves (see EditorFactory)
+        const view = update.state.field(editorInfoField, false);
+        if (!(view instanceof MarkdownView) || !view.file) return;
 
-    // Check for the pattern
-    if (!plugin.emptyLineDetector.detectPattern(content)) {
-        return;
-    }
+        const trigger = plugin.quickCreateDetector.detect(update);
+        if (!trigger) return;
 
-    // Get the file being edited - this is the actual file, not the active file
-    const file = view.file;
-    if (!file) return;
+        handleQuickCreate(plugin, update.view, trigger, view.file);
+    }));
+}
 
+/**
+ * Remove the trigger text and create a new note chained to the edited file.
+ */
+function handleQuickCreate(plugin: ThreadsPlugin, editorView: EditorView, trigger: TriggerRange, file: TFile): void {
     // Prevent double triggers
     plugin.isCreatingNote = true;
 
-    // Remove the extra newlines immediately
-    const cleanContent = plugin.emptyLineDetector.removePattern(content);
-    editor.setValue(cleanContent);
-
     // Create new note chained to this file
-    console.log(`Empty line pattern detected in ${file.path}, creating new note...`);
-    plugin.noteCreationService.createChainedNote(file.path).finally(() => {
-        // Reset flag after creation completes
-        setTimeout(() => {
-            plugin.isCreatingNote = false;
-        }, 300);
-    });
+    console.log(`Quick-create trigger detected in ${file.path}, creating new note...`);
+    plugin.quickCreateDetector.removeTrigger(editorView, trigger)
+        .then(() => plugin.noteCreationService.createChainedNote(file.path))
+        .finally(() => {
+            // Reset flag after creation completes
+            setTimeout(() => {
+                plugin.isCreatingNote = false;
+            }, 300);
+        });
 }
 
 /**
- * Register vault events: file renaming and deletion.
+ * Register vault events: file creation, renaming and deletion.
  */
 function registerVaultEvents(plugin: ThreadsPlugin): void {
+    // Check prev links once renames settle: Obsidian may still be rewriting links
+    // itself, and moving a folder renames every note in it
+    let pendingRenames: { oldPath: string; newPath: string }[] = [];
+    const debouncedRepairLinks = debounce(async () => {
+        const renames = pendingRenames;
+        pendingRenames = [];
+
+        const unfixed = await plugin.graphService.transaction("Repair links after rename", transaction =>
+            plugin.graphService.repairPrevLinks(renames, transaction)
+        );
+        if (unfixed.length > 0) {
+            const names = unfixed.map(getNoteName).join(", ");
+            new Notice(`Could not update the ${plugin.settings.prevField} links of: ${names}. Run "Check thread integrity" to fix them.`, 10000);
+        }
+        plugin.renderChainView();
+    }, 1000);
+
     // Handle file renames
     plugin.registerEvent(
-        plugin.app.vault.on("rename", (file, oldPath) => {
+        plugin.app.vault.on("rename", async (file, oldPath) => {
+            plugin.noteCreationService.handleRename(oldPath);
+
+            // A note moved into an untracked folder leaves its thread like a deleted note
+            const isNote = file instanceof TFile && file.extension === "md";
+            if (isNote && plugin.graphService.isTracked(oldPath) && !plugin.graphService.isTracked(file.path)) {
+                await removeFromThread(plugin, oldPath);
+                return;
+            }
+
             plugin.graphService.handleRename(oldPath, file.path);
             plugin.renderChainView();
+
+            if (isNote && plugin.graphService.isTracked(file.path)) {
+                pendingRenames.push({ oldPath, newPath: file.path });
+                debouncedRepairLinks();
+            }
         })
     );
 
-    // Handle file deletions - GraphService handles chain healing
+    // Handle file creations - notes linking to the new note join its thread
     plugin.registerEvent(
-        plugin.app.vault.on("delete", async (file) => {
+        plugin.app.vault.on("create", (file) => {
             if (file instanceof TFile && file.extension === "md") {
-                await plugin.graphService.handleDelete(file);
+                plugin.graphService.handleCreate(file);
                 plugin.renderChainView();
             }
         })
     );
+
+    // Handle file deletions - GraphService handles chain healing
+    plugin.registerEvent(
+        plugin.app.vault.on("delete", async (file) => {
+            if (file instanceof TFile && file.extension === "md" && plugin.graphService.isTracked(file.path)) {
+                await removeFromThread(plugin, file.path);
+            }
+        })
+    );
 }
 
 /**
- * Register metadata cache events: frontmatter changes.
- * Only re-render when the "prev" frontmatter field changes.
+ * Remove a deleted (or no longer tracked) note from the graph, dealing with the
+ * notes that followed it as the delete behavior setting says.
+ */
+async function removeFromThread(plugin: ThreadsPlugin, path: string): Promise<void> {
+    let action = plugin.settings.deleteBehavior;
+    if (action === "ask") {
+        // Only ask when there is something to decide
+        const preview = plugin.graphService.previewDelete(path);
+        action = preview
+            ? await new DeleteActionModal(plugin.app, path, preview, plugin.settings.prevField).prompt()
+            : "heal";
+    }
+
+    await plugin.graphService.handleDelete(path, action);
+    plugin.renderChainView();
+}
+
+/**
+ * Register metadata cache events: frontmatter changes and renaming new notes.
+ * Only re-render when the link fields ("prev", and "next" if configured) change.
  * 
  * IMPORTANT: We skip the active note entirely to prevent scroll issues on iOS.
  * The active note is the only one the user can edit, and we don't need to
@@ -110,7 +164,10 @@ function registerMetadataCacheEvents(plugin: ThreadsPlugin): void {
 
         // For non-active files, use direct YAML parsing instead of Obsidian's metadata cache
         // This is more reliable and doesn't depend on cache timing
-        const newPrev = await extractPrevFromFile(plugin.app, file);
+        const fields = plugin.graphService.linkFields;
+        const prevValue = await extractPrevFromFile(plugin.app, file, fields.prev);
+        const nextValue = fields.next ? await extractPrevFromFile(plugin.app, file, fields.next) : undefined;
+        const newPrev = nextValue === undefined ? prevValue : `${prevValue ?? ""}|${nextValue}`;
 
         // Check if file was already in our cache
         const wasInCache = plugin.prevFrontmatterCache.has(file.path);
@@ -119,8 +176,10 @@ function registerMetadataCacheEvents(plugin: ThreadsPlugin): void {
         // Always update the cache with the current value
         plugin.prevFrontmatterCache.set(file.path, newPrev);
 
-        // Only re-render if the file was already in our cache AND prev actually changed
-        if (wasInCache && newPrev !== oldPrev) {
+        // Only re-render if the file was already in our cache AND prev actually changed,
+        // or if the file is new and its links are not in the graph yet
+        const isNewFile = !plugin.graphService.isParsed(file.path);
+        if ((wasInCache && newPrev !== oldPrev) || (isNewFile && newPrev !== undefined)) {
             console.log(`Frontmatter prev changed in ${file.path}:`, oldPrev, "->", newPrev);
             plugin.graphService.updateFile(file);
             plugin.renderChainView();
@@ -130,37 +189,46 @@ function registerMetadataCacheEvents(plugin: ThreadsPlugin): void {
     plugin.registerEvent(
         plugin.app.metadataCache.on("changed", debouncedMetadataHandler)
     );
+
+    // Name new notes after their first heading once they have content
+    plugin.registerEvent(
+        plugin.app.metadataCache.on("changed", (file, data, cache) => {
+            if (plugin.settings.autoRenameFromHeading) {
+                plugin.noteCreationService.renameFromHeading(file, cache).catch(error => {
+                    console.error(`Failed to rename ${file.path} after its first heading:`, error);
+                    new Notice(`Could not rename ${file.basename} after its first heading`);
+                });
+            }
+        })
+    );
 }
 
 /**
- * Extract the "prev" field from a file's YAML frontmatter using direct parsing.
+ * Extract the "prev" field (or another link field) from a file's YAML frontmatter using direct parsing.
  * This avoids relying on Obsidian's metadata cache which can be unreliable.
  * 
  * @param app - The Obsidian App instance
  * @param file - The file to extract prev from
+ * @param field - The frontmatter key to read
  * @returns Stringified prev value (for comparison), or undefined if not found
  */
-async function extractPrevFromFile(app: import('obsidian').App, file: TFile): Promise<string | undefined> {
+async function extractPrevFromFile(app: import('obsidian').App, file: TFile, field = "prev"): Promise<string | undefined> {
     try {
         const content = await app.vault.cachedRead(file);
-
-        // Match YAML frontmatter
-        const yamlMatch = content.match(/^---\n([\s\S]*?)\n---/);
-        if (!yamlMatch) {
+        const { yaml } = splitFrontmatter(content);
+        if (!yaml) {
             return undefined;
         }
 
-        const yamlContent = yamlMatch[1];
-
-        // Simple regex to extract prev field value
-        // Handles: prev: "value", prev: value, prev: [[link]]
-        const prevMatch = yamlContent.match(/^prev:\s*(.+)$/m);
-        if (!prevMatch) {
+        // Parse the whole frontmatter so lists and multi-line values are compared in full
+        const frontmatter = parseYaml(yaml);
+        const value = frontmatter && typeof frontmatter === "object" ? frontmatter[field] : undefined;
+        if (value === undefined || value === null) {
             return undefined;
         }
 
-        // Return the raw value (trimmed) for comparison
-        return prevMatch[1].trim();
+        // Return the value serialized for comparison
+        return JSON.stringify(value);
     } catch (error) {
         console.error(`Error reading prev from ${file.path}:`, error);
         return undefined;
@@ -178,7 +246,7 @@ function registerWorkspaceEvents(plugin: ThreadsPlugin): void {
             const view = leaf.view;
             if (view instanceof MarkdownView) {
                 console.log("Active leaf changed:", view.file?.path);
-                await renderChainView(plugin, view);
+                await plugin.chainViewManager.renderForView(view);
             }
         })
     );
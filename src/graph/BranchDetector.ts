@@ -4,32 +4,51 @@ import { getNextNotes, getPrevNotes } from "./ChainQueries";
 /**
  * Segment types for rendering
  */
-export type SegmentType = "note" | "create-button";
+export type SegmentType = "note" | "create-button" | "branch";
+
+/**
+ * A reply that branches off the main line, with its own nested replies.
+ */
+export type ReplyNode = {
+    path: string;
+    /** Heading or block of the parent note the reply points to, e.g. "#Intro" */
+    subpath?: string;
+    replies: ReplyNode[];
+};
 
 /**
  * Represents a chain segment for rendering
  */
 export type ChainSegment = {
     type: SegmentType;
-    path: string; // For notes: file path. For create-button: path of last note to chain from
+    path: string; // For notes: file path. For create-button: path of last note to chain from. For branch: path of the parent note
+    replies?: ReplyNode[]; // For branch: the reply trees that are not part of the main line
 };
 
 /**
  * Build the rendering chain from the active note.
- * Traces the linear chain and optionally appends a create-button segment at the end.
+ * Traces the main line of the thread and, after every note that has more than
+ * one next note, adds a branch segment holding the replies that are not on the
+ * main line. Optionally appends a create-button segment at the end.
+ * 
+ * The main line follows the oldest next note at each fork, unless the user
+ * switched to another branch (see `branchSelections`).
  * 
  * @param graph - The chain graph
  * @param activeNotePath - The currently active note
  * @param includeCreateButton - Whether to include the create button segment (mobile only)
- * @returns Array of chain segments in order (notes + optional create button)
+ * @param branchSelections - Parent path -> child path to follow instead of the oldest child
+ * @returns Array of chain segments in order (notes, branches + optional create button)
  */
 export const buildRenderingChain = (
     graph: ChainGraph,
     activeNotePath: string,
-    includeCreateButton: boolean = true
+    includeCreateButton: boolean = true,
+    branchSelections: ReadonlyMap<string, string> = new Map()
 ): ChainSegment[] => {
     const chain: ChainSegment[] = [];
-    const visited = new Set<string>();
+    // The active note counts as visited so a prev cycle can't render it twice
+    const visited = new Set<string>([activeNotePath]);
 
     // Step 1: Walk backward to find the start of the chain
     let current = activeNotePath;
@@ -47,16 +66,10 @@ export const buildRenderingChain = (
         current = prev;
     }
 
-    // Add backward chain to result
-    for (const path of backwardChain) {
-        chain.push({ type: "note", path });
-    }
-
     // Step 2: Add active note
-    chain.push({ type: "note", path: activeNotePath });
-    visited.add(activeNotePath);
+    const mainLine = [...backwardChain, activeNotePath];
 
-    // Step 3: Walk forward (take first next note, linear only)
+    // Step 3: Walk forward along the main line
     current = activeNotePath;
     let lastNotePath = activeNotePath;
 
@@ -64,17 +77,33 @@ export const buildRenderingChain = (
         const nextNotes = getNextNotes(graph, current);
         if (nextNotes.length === 0) break;
 
-        // Take the first (oldest by creation time if multiple exist)
-        const next = getOldestNote(graph, nextNotes);
+        // Take the selected branch, or the oldest by creation time
+        const next = getMainLineChild(graph, current, nextNotes, branchSelections);
         if (!next || visited.has(next)) break;
 
-        chain.push({ type: "note", path: next });
+        mainLine.push(next);
         visited.add(next);
         current = next;
         lastNotePath = next;
     }
 
-    // Step 4: Add create button at the end (only if requested)
+    // Step 4: Emit the notes, with a branch segment after every fork
+    for (const path of mainLine) {
+        chain.push({ type: "note", path });
+
+        // Every main-line note is visited, so what's left are the other branches
+        const replies = getNextNotes(graph, path).filter(next => !visited.has(next));
+        if (replies.length > 0) {
+            const replyVisited = new Set(visited);
+            chain.push({
+                type: "branch",
+                path,
+                replies: sortByCreatedTime(graph, replies).map(reply => buildReplyTree(graph, reply, replyVisited, path))
+            });
+        }
+    }
+
+    // Step 5: Add create button at the end (only if requested)
     if (includeCreateButton) {
         chain.push({ type: "create-button", path: lastNotePath });
     }
@@ -83,12 +112,87 @@ export const buildRenderingChain = (
 };
 
 /**
- * Get the oldest note from a list of paths based on creation time.
+ * Build the tree of replies below a note.
+ * Children are ordered oldest first; notes already in `visited` are skipped
+ * so cycles and notes shown elsewhere don't repeat.
+ * 
+ * @param graph - The chain graph
+ * @param path - The note to build the tree from
+ * @param visited - Paths that must not appear in the tree (mutated)
+ * @param parentPath - The note `path` replies to, to read the section it points to
  */
-const getOldestNote = (graph: ChainGraph, paths: string[]): string | null => {
-    if (paths.length === 0) return null;
-    if (paths.length === 1) return paths[0];
+export const buildReplyTree = (graph: ChainGraph, path: string, visited: Set<string> = new Set(), parentPath?: string): ReplyNode => {
+    visited.add(path);
+
+    const children = getNextNotes(graph, path).filter(next => !visited.has(next));
+    const replies: ReplyNode[] = [];
+    for (const child of sortByCreatedTime(graph, children)) {
+        if (visited.has(child)) continue;
+        replies.push(buildReplyTree(graph, child, visited, path));
+    }
+
+    const subpath = parentPath ? graph.get_prev_subpaths(path).get(parentPath) : undefined;
+    return subpath ? { path, subpath, replies } : { path, replies };
+};
+
+/**
+ * Count all notes in a reply tree, including its root.
+ */
+export const countReplyTree = (node: ReplyNode): number => {
+    return node.replies.reduce((count, reply) => count + countReplyTree(reply), 1);
+};
+
+/**
+ * Get the notes of the main line through a note, from the thread's first note to its last.
+ *
+ * @param graph - The chain graph
+ * @param path - Any note on the main line
+ * @param branchSelections - Parent path -> child path to follow instead of the oldest child
+ */
+export const getMainLine = (
+    graph: ChainGraph,
+    path: string,
+    branchSelections: ReadonlyMap<string, string> = new Map()
+): string[] => {
+    return buildRenderingChain(graph, path, false, branchSelections)
+        .filter(segment => segment.type === "note")
+        .map(segment => segment.path);
+};
+
+/**
+ * Get the note that follows a note on the main line, or null at the end of the thread.
+ * 
+ * @param graph - The chain graph
+ * @param path - The note to look from
+ * @param branchSelections - Parent path -> child path to follow instead of the oldest child
+ */
+export const getMainLineNext = (
+    graph: ChainGraph,
+    path: string,
+    branchSelections: ReadonlyMap<string, string> = new Map()
+): string | null => {
+    return getMainLineChild(graph, path, getNextNotes(graph, path), branchSelections);
+};
 
+/**
+ * Pick the child that continues the main line at a fork.
+ * Uses the user's branch selection if it is still a child, otherwise the oldest note.
+ */
+const getMainLineChild = (
+    graph: ChainGraph,
+    parentPath: string,
+    nextNotes: string[],
+    branchSelections: ReadonlyMap<string, string>
+): string | null => {
+    const selected = branchSelections.get(parentPath);
+    if (selected && nextNotes.includes(selected)) return selected;
+    return getOldestNote(graph, nextNotes);
+};
+
+/**
+ * Sort paths by creation time (earliest first).
+ */
+const sortByCreatedTime = (graph: ChainGraph, paths: string[]): string[] => {
     const notesWithTime = paths.map(path => {
         const attrs = graph.getNodeAttributes(path);
         return {
@@ -97,7 +201,16 @@ const getOldestNote = (graph: ChainGraph, paths: string[]): string | null => {
         };
     });
 
-    // Sort by creation time (earliest first)
     notesWithTime.sort((a, b) => a.createdTime - b.createdTime);
-    return notesWithTime[0].path;
+    return notesWithTime.map(n => n.path);
+};
+
+/**
+ * Get the oldest note from a list of paths based on creation time.
+ */
+const getOldestNote = (graph: ChainGraph, paths: string[]): string | null => {
+    if (paths.length === 0) return null;
+    if (paths.length === 1) return paths[0];
+
+    return sortByCreatedTime(graph, paths)[0];
 };
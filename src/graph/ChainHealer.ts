@@ -1,6 +1,11 @@
 import { App, TFile } from "obsidian";
 import { ChainGraph } from "./GraphBuilder";
-import { updateFrontmatter } from "../utility/utils";
+
+/**
+ * Writes a note's prev field and updates its graph edges
+ * (see `GraphService.setPrevLinks`, which also records the change for undo).
+ */
+export type PrevLinkWriter = (file: TFile, targetPaths: string[]) => Promise<void>;
 
 /**
  * Handles chain healing operations when notes are deleted.
@@ -28,8 +33,9 @@ export class ChainHealer {
      * 3. Updates the source nodes to point to the targets, bypassing the deleted node
      * 
      * @param deletedPath - The path of the deleted file
+     * @param writePrevLinks - Writes each re-pointed note's prev field
      */
-    async healAfterDelete(deletedPath: string): Promise<void> {
+    async healAfterDelete(deletedPath: string, writePrevLinks: PrevLinkWriter): Promise<void> {
         if (!this.graph.hasNode(deletedPath)) {
             console.log(`ChainHealer: Node ${deletedPath} not found in graph`);
             return;
@@ -54,7 +60,53 @@ export class ChainHealer {
 
         // For each node that has this as prev, update to point to this node's prev
         for (const sourcePath of inEdges) {
-            await this.updateNodePrevLinks(sourcePath, deletedPath, outEdges);
+            await this.updateNodePrevLinks(sourcePath, deletedPath, outEdges, writePrevLinks);
+        }
+    }
+
+    /**
+     * Describe what `healAfterDelete` would do, without changing anything.
+     * 
+     * @param deletedPath - The path of the deleted file
+     * @returns The notes that would be re-pointed, with the prev targets they would get
+     */
+    previewHeal(deletedPath: string): { path: string; targets: string[] }[] {
+        if (!this.graph.hasNode(deletedPath)) return [];
+
+        const sources = new Set(this.graph.mapInEdges(deletedPath, (edge, attr, source) => source));
+        const outEdges = this.graph.mapOutEdges(deletedPath, (edge, attr, source, target) => target);
+
+        return [...sources].map(path => ({ path, targets: this.getHealedTargets(path, deletedPath, outEdges) }));
+    }
+
+    /**
+     * Re-point every note that links to a node so it links to another node instead.
+     * 
+     * Used when a note is absorbed into another one (merge): the absorbed note's
+     * successors and reply branches move to the surviving note before the
+     * absorbed note is deleted, so healing on delete has nothing left to do.
+     * 
+     * Example:
+     *   Before: A -> B -> C, B -> D (reply)
+     *   Absorb B into A
+     *   After:  A -> C, A -> D
+     * 
+     * @param oldPath - The note being absorbed
+     * @param newPath - The note that takes its place
+     * @param writePrevLinks - Writes each re-pointed note's prev field
+     */
+    async repointReferences(oldPath: string, newPath: string, writePrevLinks: PrevLinkWriter): Promise<void> {
+        if (!this.graph.hasNode(oldPath)) return;
+
+        const sources = new Set(this.graph.mapInEdges(
+            oldPath,
+            (edge, attr, source, target) => source
+        ));
+        // The surviving note must not end up pointing to itself
+        sources.delete(newPath);
+
+        for (const sourcePath of sources) {
+            await this.updateNodePrevLinks(sourcePath, oldPath, [newPath], writePrevLinks);
         }
     }
 
@@ -64,11 +116,13 @@ export class ChainHealer {
      * @param nodePath - The node whose prev links need updating
      * @param deletedPath - The path that was deleted (to remove from prev)
      * @param newTargets - The new paths to add to prev (the deleted node's prev links)
+     * @param writePrevLinks - Writes the node's prev field
      */
     private async updateNodePrevLinks(
         nodePath: string,
         deletedPath: string,
-        newTargets: string[]
+        newTargets: string[],
+        writePrevLinks: PrevLinkWriter
     ): Promise<void> {
         const file = this.app.vault.getAbstractFileByPath(nodePath);
         if (!(file instanceof TFile)) {
@@ -76,11 +130,25 @@ export class ChainHealer {
             return;
         }
 
-        // Get current outgoing edges (prev links) for this node
-        const currentPrevLinks = this.graph.mapOutEdges(
-            nodePath,
-            (edge, attr, source, target) => target
-        );
+        const uniqueLinks = this.getHealedTargets(nodePath, deletedPath, newTargets);
+
+        console.log(`ChainHealer: Updating ${nodePath} prev links to: [${uniqueLinks.join(', ')}]`);
+
+        // Links that stay keep the heading or block they pointed to,
+        // and the graph is updated right away instead of waiting for the metadata cache
+        await writePrevLinks(file, uniqueLinks);
+    }
+
+    /**
+     * Get a node's prev targets with a deleted target replaced by new targets.
+     */
+    private getHealedTargets(nodePath: string, deletedPath: string, newTargets: string[]): string[] {
+        // Get the prev links this node declares itself
+        // (edges from other notes' next field are not part of its frontmatter)
+        const currentPrevLinks: string[] = [];
+        this.graph.forEachOutEdge(nodePath, (edge, attr, source, target) => {
+            if (attr.field === "prev") currentPrevLinks.push(target);
+        });
 
         // Remove the deleted path and add the new targets
         const updatedLinks = currentPrevLinks
@@ -88,20 +156,6 @@ export class ChainHealer {
             .concat(newTargets);
 
         // Remove duplicates
-        const uniqueLinks = [...new Set(updatedLinks)];
-
-        // Convert paths to basenames for frontmatter
-        const linkNames = uniqueLinks.map(path => {
-            const f = this.app.vault.getAbstractFileByPath(path);
-            if (f instanceof TFile) {
-                return f.basename;
-            }
-            // Fallback: extract basename from path
-            return path.replace(/\.md$/, '').split('/').pop() || path;
-        });
-
-        console.log(`ChainHealer: Updating ${nodePath} prev links to: [${linkNames.join(', ')}]`);
-
-        await updateFrontmatter(this.app, file, linkNames);
+        return [...new Set(updatedLinks)];
     }
 }
@@ -1,5 +1,6 @@
 import { App, TFile } from "obsidian";
-import { ChainGraph, ChainEdge, ChainEdgeAttributes, ChainNodeAttributes } from "./GraphBuilder";
+import { parseLinks } from "../utility/linkParser";
+import { ChainGraph, ChainEdge, ChainEdgeAttributes, ChainNodeAttributes, DEFAULT_LINK_FIELDS, LinkFields } from "./GraphBuilder";
 
 /**
  * Helper to map edges from graphology format to ChainEdge-like objects.
@@ -51,12 +52,14 @@ export const isInChain = (graph: ChainGraph, notePath: string): boolean => {
  * Get the previous note(s) in the chain.
  * Logic: If Current Note has "prev: [[Note A]]", then Note A is a previous note.
  * In the graph, this is represented as an outgoing edge from Current -> Note A.
+ * The same edge exists when Note A declares "next: [[Current Note]]", so a note
+ * linked both ways is only returned once.
  */
 export const getPrevNotes = (graph: ChainGraph, notePath: string): string[] => {
     if (!graph.hasNode(notePath)) return [];
 
     const prevEdges = mapEdges(graph, notePath, "out");
-    return prevEdges.map((e) => e.target_id);
+    return [...new Set(prevEdges.map((e) => e.target_id))];
 };
 
 /**
@@ -72,15 +75,62 @@ export const getNextNotes = (graph: ChainGraph, notePath: string): string[] => {
     if (!graph.hasNode(notePath)) return [];
 
     // Get all edges pointing TO the current note
+    // These are notes that consider the current note as their "prev",
+    // or that the current note lists in its "next" field
     const inEdges = mapEdges(graph, notePath, "in");
 
-    // Filter for edges with field "prev"
-    // These are notes that consider the current note as their "prev"
-    const nextNotes = inEdges
-        .filter((e) => e.attr.field === "prev")
-        .map((e) => e.source_id);
+    return [...new Set(inEdges.map((e) => e.source_id))];
+};
 
-    return nextNotes;
+/**
+ * Get a note whose link field declares the link to a node, e.g. the note whose
+ * prev names a missing note. Link text resolves relative to that note.
+ * 
+ * @returns The linking note, or null if no note declares a link to the node
+ */
+export const getLinkingNote = (graph: ChainGraph, notePath: string): string | null => {
+    if (!graph.hasNode(notePath)) return null;
+
+    // Prev links point in to the node, next links point out of it
+    let linking: string | null = null;
+    graph.forEachInEdge(notePath, (edge, attr, source) => {
+        if (!linking && attr.field === "prev") linking = source;
+    });
+    graph.forEachOutEdge(notePath, (edge, attr, source, target) => {
+        if (!linking && attr.field === "next") linking = target;
+    });
+    return linking;
+};
+
+/**
+ * Get the notes that only continue from a note: its next notes, their next
+ * notes and so on, reply branches included. A note that also follows a note
+ * outside of this sub-thread is not part of it, and neither are its next notes.
+ * 
+ * @param graph - The chain graph
+ * @param notePath - The note the sub-thread starts after
+ * @returns The notes of the sub-thread, nearest first (without the note itself)
+ */
+export const getSubThread = (graph: ChainGraph, notePath: string): string[] => {
+    const subThread = new Set([notePath]);
+
+    // A note joins once all of its prev notes are in, so keep going until nothing joins
+    let grown = true;
+    while (grown) {
+        grown = false;
+        for (const path of [...subThread]) {
+            for (const next of getNextNotes(graph, path)) {
+                if (subThread.has(next)) continue;
+                if (getPrevNotes(graph, next).every(prev => subThread.has(prev))) {
+                    subThread.add(next);
+                    grown = true;
+                }
+            }
+        }
+    }
+
+    subThread.delete(notePath);
+    return [...subThread];
 };
 
 /**
@@ -157,39 +207,52 @@ export const getCompleteChain = (
 };
 
 /**
- * Parse the prev field from frontmatter and resolve note paths
+ * Get the roots of every thread in the graph.
+ * A root is an existing note with no "prev" of its own but at least one note
+ * pointing to it. Threads starting at a missing note have no root.
  */
-const parsePrevField = (app: App, prevValue: any, currentFilePath: string): string[] => {
-    if (!prevValue) return [];
-
-    const prevLinks: string[] = [];
-    const values = Array.isArray(prevValue) ? prevValue : [prevValue];
-
-    for (const value of values) {
-        if (typeof value !== 'string') continue;
-
-        // Extract note name from [[Note]] format
-        const match = value.match(/\[\[([^\]]+)\]\]/);
-        if (!match) continue;
+export const getThreadRoots = (graph: ChainGraph): string[] => {
+    return graph.filterNodes((nodeId, attr) =>
+        attr.resolved && getPrevNotes(graph, nodeId).length === 0 && getNextNotes(graph, nodeId).length > 0
+    );
+};
 
-        const linkText = match[1];
+/**
+ * A link from a link field, resolved to the graph node it points to.
+ */
+export type ResolvedLink = {
+    /** The file path, or the link path for notes that don't exist yet */
+    path: string;
+    /** Heading or block reference including "#"; empty for the whole note */
+    subpath: string;
+};
 
+/**
+ * Parse a link field (prev or next) from frontmatter and resolve note paths.
+ * Accepts every link syntax `parseLinks` understands, as a single value or a list.
+ * Links to notes that don't exist yet are returned as their link path, so
+ * they become unresolved nodes that are promoted once the note is created.
+ */
+export const parseLinkField = (app: App, fieldValue: unknown, currentFilePath: string): ResolvedLink[] => {
+    return parseLinks(fieldValue).map(({ linkpath, subpath }) => {
         // Resolve the link to an actual file path
-        const linkedFile = app.metadataCache.getFirstLinkpathDest(linkText, currentFilePath);
-        if (linkedFile instanceof TFile) {
-            prevLinks.push(linkedFile.path);
-        }
-    }
-
-    return prevLinks;
+        const linkedFile = app.metadataCache.getFirstLinkpathDest(linkpath, currentFilePath);
+        return { path: linkedFile instanceof TFile ? linkedFile.path : linkpath, subpath };
+    });
 };
 
 /**
  * Build the chain graph from all files in the vault
+ * 
+ * @param isTracked - Whether a file is part of threads; other files are left out
  */
-export const buildChainGraph = (app: App): ChainGraph => {
+export const buildChainGraph = (
+    app: App,
+    fields: LinkFields = DEFAULT_LINK_FIELDS,
+    isTracked: (path: string) => boolean = () => true
+): ChainGraph => {
     const graph = new ChainGraph();
-    const files = app.vault.getMarkdownFiles();
+    const files = app.vault.getMarkdownFiles().filter(file => isTracked(file.path));
 
     console.log(`Building chain graph from ${files.length} markdown files`);
 
@@ -207,7 +270,7 @@ export const buildChainGraph = (app: App): ChainGraph => {
 
     // Second pass: Add all edges
     for (const file of files) {
-        updateNodeEdges(graph, file, app);
+        updateNodeEdges(graph, file, app, fields);
     }
 
     console.log(`Chain graph built: ${graph.order} nodes, ${graph.size} edges`);
@@ -218,7 +281,7 @@ export const buildChainGraph = (app: App): ChainGraph => {
 /**
  * Update the edges for a specific node based on its frontmatter
  */
-export const updateNodeEdges = (graph: ChainGraph, file: TFile, app: App): void => {
+export const updateNodeEdges = (graph: ChainGraph, file: TFile, app: App, fields: LinkFields = DEFAULT_LINK_FIELDS): void => {
     const filePath = file.path;
 
     if (!graph.hasNode(filePath)) {
@@ -233,20 +296,19 @@ export const updateNodeEdges = (graph: ChainGraph, file: TFile, app: App): void
         });
     }
 
-    // Remove all existing outgoing edges from this node
-    const existingEdges: string[] = [];
-    graph.forEachOutEdge(filePath, (edge) => existingEdges.push(edge));
-    existingEdges.forEach(edge => graph.dropEdge(edge));
+    // Remove all edges this node's frontmatter declared previously
+    graph.drop_declared_edges(filePath);
 
     // Get the frontmatter
     const metadata = app.metadataCache.getFileCache(file);
-    const prevValue = metadata?.frontmatter?.prev;
+    const prevValue = metadata?.frontmatter?.[fields.prev];
+    const nextValue = fields.next ? metadata?.frontmatter?.[fields.next] : undefined;
 
     // Parse and resolve prev links
-    const prevLinks = parsePrevField(app, prevValue, filePath);
+    const prevLinks = parseLinkField(app, prevValue, filePath);
 
     // Add edges for each prev link
-    for (const targetPath of prevLinks) {
+    for (const { path: targetPath, subpath } of prevLinks) {
         // Ensure target node exists (might be unresolved)
         if (!graph.hasNode(targetPath)) {
             graph.safe_add_node(targetPath, {
@@ -254,9 +316,27 @@ export const updateNodeEdges = (graph: ChainGraph, file: TFile, app: App): void
             });
         }
 
-        // Add edge from current file to prev target
+        // Add edge from current file to prev target, keeping the section it points to
         graph.addDirectedEdge(filePath, targetPath, {
             field: "prev",
+            explicit: false,
+            ...(subpath ? { subpath } : {})
+        });
+    }
+
+    // Parse and resolve next links (only when a next field is configured)
+    const nextLinks = parseLinkField(app, nextValue, filePath);
+
+    // Add edges for each next link, pointing back to this file like a prev link would
+    for (const { path: sourcePath } of nextLinks) {
+        if (!graph.hasNode(sourcePath)) {
+            graph.safe_add_node(sourcePath, {
+                resolved: false
+            });
+        }
+
+        graph.addDirectedEdge(sourcePath, filePath, {
+            field: "next",
             explicit: true
         });
     }
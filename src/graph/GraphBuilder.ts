@@ -1,16 +1,47 @@
 import { MultiGraph } from "graphology";
 
+/**
+ * Nodes are keyed by file path. Unresolved nodes (link targets without a file)
+ * are keyed by their link text, e.g. "Future note", or by the old path of a
+ * deleted file that is still linked to.
+ */
 export type ChainNodeAttributes = {
     resolved: boolean;
     aliases?: string[];
     createdTime?: number; // Unix timestamp in milliseconds
 }
 
+/**
+ * Edges always point from a note to its previous note (child -> parent),
+ * whichever frontmatter field declared the relationship.
+ */
 export type ChainEdgeAttributes = {
-    field: "prev";
+    /** "prev" when declared by the source's prev field, "next" when declared by the target's next field */
+    field: "prev" | "next";
+    /**
+     * Whether the next relationship is declared: true for edges from the target's next field,
+     * false for edges from a prev link, whose next relationship is inferred by reversing it
+     */
     explicit: boolean;
+    /** Heading or block of the target the link points to, e.g. "#Intro" or "#^abc123" (prev links only) */
+    subpath?: string;
 }
 
+/**
+ * Names of the frontmatter keys that link notes into chains.
+ */
+export type LinkFields = {
+    /** Key pointing to the previous note(s), e.g. "prev", "parent" or "up" */
+    prev: string;
+    /** Optional key pointing to the next note(s). Empty string disables it. */
+    next: string;
+}
+
+export const DEFAULT_LINK_FIELDS: LinkFields = {
+    prev: "prev",
+    next: ""
+};
+
 export type ChainEdge = {
     id: string;
     attr: ChainEdgeAttributes;
@@ -71,20 +102,101 @@ export class ChainGraph extends MultiGraph<ChainNodeAttributes, ChainEdgeAttribu
         this.dropNode(old_id);
     }
 
+    //======================= Drop declared edges =======================
+    /**
+     * Remove every edge declared by the node's own frontmatter:
+     * outgoing "prev" edges and incoming "next" edges.
+     * Unresolved notes nothing links to anymore are dropped.
+     */
+    drop_declared_edges(id: string) {
+        if (!this.hasNode(id)) return;
+
+        const edgesToDelete: string[] = [];
+        const linked = new Set<string>();
+        this.forEachOutEdge(id, (edge, attr, source, target) => {
+            if (attr.field === "prev") {
+                edgesToDelete.push(edge);
+                linked.add(target);
+            }
+        });
+        this.forEachInEdge(id, (edge, attr, source) => {
+            if (attr.field === "next") {
+                edgesToDelete.push(edge);
+                linked.add(source);
+            }
+        });
+        edgesToDelete.forEach(edge => this.dropEdge(edge));
+        linked.forEach(node => this.drop_if_orphaned(node));
+    }
+
+    //======================= Replace prev edges =======================
+    /**
+     * Replace the node's outgoing "prev" edges with edges to the given targets.
+     * Used when the plugin rewrites a prev field itself and can't wait for the metadata cache.
+     * Links to a target that stays keep the section they pointed to, unless
+     * the sections are given.
+     */
+    replace_prev_edges(id: string, targets: string[], subpaths: Map<string, string> = this.get_prev_subpaths(id)) {
+        if (!this.hasNode(id)) return;
+
+        const edgesToDelete: string[] = [];
+        const previousTargets = new Set<string>();
+        this.forEachOutEdge(id, (edge, attr, source, target) => {
+            if (attr.field === "prev") {
+                edgesToDelete.push(edge);
+                previousTargets.add(target);
+            }
+        });
+        edgesToDelete.forEach(edge => this.dropEdge(edge));
+
+        for (const target of new Set(targets)) {
+            if (!this.hasNode(target)) {
+                this.addNode(target, { resolved: false });
+            }
+            const subpath = subpaths.get(target);
+            this.addDirectedEdge(id, target, { field: "prev", explicit: false, ...(subpath ? { subpath } : {}) });
+        }
+        previousTargets.forEach(target => this.drop_if_orphaned(target));
+    }
+
+    //======================= Prev subpaths =======================
+    /**
+     * Get the section each of the node's prev links points to, by target.
+     * Targets linked as a whole note are not included.
+     */
+    get_prev_subpaths(id: string): Map<string, string> {
+        const subpaths = new Map<string, string>();
+        if (!this.hasNode(id)) return subpaths;
+
+        this.forEachOutEdge(id, (edge, attr, source, target) => {
+            if (attr.field === "prev" && attr.subpath) subpaths.set(target, attr.subpath);
+        });
+        return subpaths;
+    }
+
+    //======================= Drop orphaned node =======================
+    /**
+     * Drop an unresolved node (a link target with no file) once nothing links to it.
+     */
+    drop_if_orphaned(id: string) {
+        if (!this.hasNode(id) || this.getNodeAttribute(id, "resolved")) return;
+        if (this.degree(id) === 0) {
+            this.dropNode(id);
+        }
+    }
+
     //======================= Delete node =======================
     handle_delete(id: string) {
         if (!this.hasNode(id)) return;
 
-        // Check if there are incoming edges (other files linking to this one)
-        if (this.degree(id) > 0 && this.inDegree(id) > 0) {
-            // It has incoming links, so it becomes an "unresolved" node
+        // The file content is gone, so the links it declared are gone too
+        this.drop_declared_edges(id);
+
+        // Check if there are remaining edges (other files linking to this one)
+        if (this.degree(id) > 0) {
+            // It is still linked, so it becomes an "unresolved" node
             this.setNodeAttribute(id, "resolved", false);
             this.removeNodeAttribute(id, "aliases"); // Aliases are gone with the file
-
-            // Remove outgoing edges (since the file content is gone, it links to nothing)
-            const edgesToDelete: string[] = [];
-            this.forEachOutEdge(id, (edge) => edgesToDelete.push(edge));
-            edgesToDelete.forEach(edge => this.dropEdge(edge));
         } else {
             // No one links to it, safe to drop completely
             this.dropNode(id);
@@ -0,0 +1,114 @@
+import { ChainGraph } from "./GraphBuilder";
+import { getPrevNotes } from "./ChainQueries";
+
+/**
+ * Kinds of problems that make a thread render incorrectly.
+ */
+export type IntegrityIssueType = "cycle" | "multiple-prev" | "unresolved" | "self-loop";
+
+/**
+ * A single integrity problem, tied to the note whose frontmatter should change to fix it.
+ */
+export type IntegrityIssue = {
+    type: IntegrityIssueType;
+    /** The note whose prev field causes the problem */
+    path: string;
+    /** The prev targets involved (for a cycle: the link that closes it) */
+    targets: string[];
+    /** For cycles: every note in the cycle, in prev order */
+    cycle?: string[];
+};
+
+/**
+ * Scan the graph for structural problems in prev links:
+ * - self-loops (a note that is its own prev)
+ * - cycles (following prev links leads back to the start)
+ * - notes with more than one prev
+ * - prev links to notes that don't exist
+ *
+ * @param graph - The chain graph
+ * @returns The issues found, grouped by type
+ */
+export const checkChainIntegrity = (graph: ChainGraph): IntegrityIssue[] => {
+    const issues: IntegrityIssue[] = [];
+
+    graph.forEachNode((path, attr) => {
+        const prevNotes = getPrevNotes(graph, path);
+
+        if (prevNotes.includes(path)) {
+            issues.push({ type: "self-loop", path, targets: [path] });
+        }
+
+        const otherPrevs = prevNotes.filter(prev => prev !== path);
+        if (otherPrevs.length > 1) {
+            issues.push({ type: "multiple-prev", path, targets: otherPrevs });
+        }
+
+        const unresolved = otherPrevs.filter(prev => !graph.getNodeAttribute(prev, "resolved"));
+        if (attr.resolved && unresolved.length > 0) {
+            issues.push({ type: "unresolved", path, targets: unresolved });
+        }
+    });
+
+    for (const cycle of findCycles(graph)) {
+        // The oldest note is most likely the intended start of the thread,
+        // so its prev link is the one that closes the loop
+        const oldest = cycle.reduce((a, b) =>
+            (graph.getNodeAttribute(a, "createdTime") || 0) <= (graph.getNodeAttribute(b, "createdTime") || 0) ? a : b
+        );
+        const index = cycle.indexOf(oldest);
+        const closingTarget = cycle[(index + 1) % cycle.length];
+        issues.push({ type: "cycle", path: oldest, targets: [closingTarget], cycle });
+    }
+
+    const order: IntegrityIssueType[] = ["cycle", "self-loop", "multiple-prev", "unresolved"];
+    return issues.sort((a, b) => order.indexOf(a.type) - order.indexOf(b.type));
+};
+
+/**
+ * Find every cycle of two or more notes formed by prev links.
+ * Each cycle is listed in prev order (each note's prev is the next entry) and reported once.
+ */
+const findCycles = (graph: ChainGraph): string[][] => {
+    const cycles: string[][] = [];
+    const seen = new Set<string>();
+    const state = new Map<string, "visiting" | "done">();
+
+    graph.forEachNode((start) => {
+        if (state.has(start)) return;
+
+        // Iterative DFS; each stack frame holds a node and its remaining prevs
+        const stack: { path: string; prevs: string[] }[] = [];
+        const push = (path: string) => {
+            state.set(path, "visiting");
+            stack.push({ path, prevs: getPrevNotes(graph, path).filter(prev => prev !== path) });
+        };
+        push(start);
+
+        while (stack.length > 0) {
+            const frame = stack[stack.length - 1];
+            const prev = frame.prevs.shift();
+
+            if (prev === undefined) {
+                state.set(frame.path, "done");
+                stack.pop();
+                continue;
+            }
+
+            if (state.get(prev) === "visiting") {
+                // Back edge: the cycle is the stack from prev up to the current node
+                const from = stack.findIndex(f => f.path === prev);
+                const cycle = stack.slice(from).map(f => f.path);
+                const key = [...cycle].sort().join("\n");
+                if (!seen.has(key)) {
+                    seen.add(key);
+                    cycles.push(cycle);
+                }
+            } else if (!state.has(prev)) {
+                push(prev);
+            }
+        }
+    });
+
+    return cycles;
+};
@@ -1,12 +1,19 @@
-import { MarkdownView, Platform, Plugin, TFile } from 'obsidian';
+import { Plugin } from 'obsidian';
 import { ChainGraph } from './graph/GraphBuilder';
-import { renderChainView } from './renderChainView';
+import { ChainViewManager } from './view/ChainViewManager';
 import { GraphService } from './services/GraphService';
-import { EmptyLineDetector } from './services/EmptyLineDetector';
+import { GraphCacheStore } from './services/GraphCache';
+import { ThreadExportService } from './services/ThreadExportService';
+import { ThreadEditService } from './services/ThreadEditService';
+import { QuickCreateDetector } from './services/QuickCreateDetector';
 import { NoteCreationService } from './services/NoteCreationService';
+import { NoteTemplateOptions, NoteTemplateService } from './services/NoteTemplateService';
 import { ThreadsSettings, DEFAULT_SETTINGS } from './settings/ThreadsSettings';
 import { ThreadsSettingTab } from './settings/ThreadsSettingTab';
 import { registerEvents } from './events/EventHandlers';
+import { registerCommands } from './commands/Commands';
+import { ThreadExplorerView, THREAD_EXPLORER_VIEW_TYPE } from './views/ThreadExplorerView';
+import { debounce } from './utility/debounce';
 
 /**
  * Threads Plugin - Chain notes together like Twitter/X threads.
@@ -17,8 +24,13 @@ import { registerEvents } from './events/EventHandlers';
 export default class ThreadsPlugin extends Plugin {
 	settings: ThreadsSettings;
 	graphService: GraphService;
-	emptyLineDetector: EmptyLineDetector;
+	graphCache: GraphCacheStore;
+	quickCreateDetector: QuickCreateDetector;
 	noteCreationService: NoteCreationService;
+	noteTemplateService: NoteTemplateService;
+	threadExportService: ThreadExportService;
+	threadEditService: ThreadEditService;
+	chainViewManager: ChainViewManager;
 
 	/** Debounce flag to prevent rapid note creation (desktop only) */
 	isCreatingNote: boolean = false;
@@ -26,6 +38,12 @@ export default class ThreadsPlugin extends Plugin {
 	/** Cache prev values to detect changes */
 	prevFrontmatterCache: Map<string, string | undefined> = new Map();
 
+	/** Branch the user switched to at each fork (parent path -> child path) */
+	branchSelections: Map<string, string> = new Map();
+
+	/** Parent paths whose reply lists are expanded in the chain view */
+	expandedBranches: Set<string> = new Set();
+
 	/** Expose graph for backward compatibility with renderChainView */
 	get graph(): ChainGraph {
 		return this.graphService.graph;
@@ -39,16 +57,43 @@ export default class ThreadsPlugin extends Plugin {
 
 		console.log("Loading Threads plugin");
 
+		// Create the graph service up front so views restored with the layout
+		// can subscribe to it; the graph itself is built once the layout is ready
+		this.graphService = new GraphService(this.app);
+		this.graphService.setLinkFields({ prev: this.settings.prevField, next: this.settings.nextField });
+		this.graphService.setUntrackedFolders(this.settings.untrackedFolders);
+		this.graphCache = new GraphCacheStore(this.app, this.manifest.dir ?? `${this.app.vault.configDir}/plugins/${this.manifest.id}`);
+
+		// Tracks the chain view of each open markdown view; unloaded with the plugin
+		this.chainViewManager = this.addChild(new ChainViewManager(this));
+
+		// Sidebar view listing all threads
+		this.registerView(THREAD_EXPLORER_VIEW_TYPE, (leaf) => new ThreadExplorerView(leaf, this));
+
+		registerCommands(this);
+
 		// Wait for the workspace to be fully ready before building our graph.
 		// This ensures all files are indexed and the cache is populated.
-		this.app.workspace.onLayoutReady(() => {
+		this.app.workspace.onLayoutReady(async () => {
 			// Initialize services
-			this.graphService = new GraphService(this.app);
-			this.graphService.initialize();
-
-			this.emptyLineDetector = new EmptyLineDetector();
-			this.noteCreationService = new NoteCreationService(this.app, this.graphService);
+			// The persisted graph lets us re-parse only the files that changed since last session
+			this.graphService.initializeFromCache(await this.graphCache.load());
+
+			// Persist the graph a few seconds after it settles
+			const debouncedSaveCache = debounce(() => this.saveGraphCache(), 5000);
+			this.registerEvent(this.graphService.on("graph-updated", debouncedSaveCache));
+			// A pending save must not write after unload; onunload saves the graph one last time
+			this.register(() => debouncedSaveCache.cancel());
+
+			this.quickCreateDetector = new QuickCreateDetector();
+			this.updateQuickCreateTrigger();
+			this.noteTemplateService = new NoteTemplateService(this.app);
+			this.noteTemplateService.setOptions(this.getNoteTemplateOptions());
+			this.noteCreationService = new NoteCreationService(this.app, this.graphService, this.noteTemplateService);
 			this.noteCreationService.setTargetFolder(this.settings.newNotesFolder);
+			this.noteCreationService.setFilenameTemplate(this.settings.filenameTemplate);
+			this.threadExportService = new ThreadExportService(this.app, this.graphService);
+			this.threadEditService = new ThreadEditService(this.app, this.graphService, this.noteCreationService);
 
 			// Set callback to re-render chain view after new note is created
 			this.noteCreationService.setOnNoteCreated(async (file) => {
@@ -59,15 +104,7 @@ export default class ThreadsPlugin extends Plugin {
 			registerEvents(this);
 
 			// Initial render: Inject the view into all currently open markdown leaves
-			const leaves = this.app.workspace.getLeavesOfType("markdown");
-			console.log(`Rendering chain view for ${leaves.length} markdown leaves`);
-
-			leaves.forEach(async leaf => {
-				const view = leaf.view;
-				if (view instanceof MarkdownView) {
-					await renderChainView(this, view);
-				}
-			});
+			await this.chainViewManager.renderAllViews();
 		});
 	}
 
@@ -77,18 +114,49 @@ export default class ThreadsPlugin extends Plugin {
 	 */
 	async rebuildGraph() {
 		this.graphService.rebuild();
+		await this.saveGraphCache();
 		await this.renderChainView();
 	}
 
 	/**
-	 * Renders the chain view into the active markdown leaf.
+	 * Writes the current graph to the cache file.
+	 */
+	async saveGraphCache() {
+		// Never overwrite a good cache with a graph that was not built yet
+		if (!this.graphService?.isReady) return;
+		await this.graphCache.save(this.graphService.serialize());
+	}
+
+	/**
+	 * Renders the chain view into every open markdown leaf,
+	 * since a graph change can affect threads shown in any of them.
 	 */
 	async renderChainView() {
-		await renderChainView(this);
+		await this.chainViewManager.renderAllViews();
+	}
+
+	/**
+	 * Reveals the thread explorer in the right sidebar, creating it if needed.
+	 */
+	async activateThreadExplorer() {
+		const { workspace } = this.app;
+
+		let leaf = workspace.getLeavesOfType(THREAD_EXPLORER_VIEW_TYPE)[0];
+		if (!leaf) {
+			const rightLeaf = workspace.getRightLeaf(false);
+			if (!rightLeaf) return;
+			await rightLeaf.setViewState({ type: THREAD_EXPLORER_VIEW_TYPE, active: true });
+			leaf = rightLeaf;
+		}
+
+		workspace.revealLeaf(leaf);
 	}
 
 	onunload() {
 		console.log("Unloading Threads plugin");
+		// The final save, catching changes made within the debounce window
+		// (the pending debounced save is cancelled); not awaited since unload is sync
+		this.saveGraphCache();
 	}
 
 	async loadSettings() {
@@ -98,6 +166,25 @@ export default class ThreadsPlugin extends Plugin {
 	async saveSettings() {
 		await this.saveData(this.settings);
 	}
+
+	/**
+	 * Passes the quick-create trigger settings to the detector.
+	 */
+	updateQuickCreateTrigger() {
+		const { quickCreateTrigger, quickCreateBlankLines, quickCreateSentinel } = this.settings;
+		this.quickCreateDetector.setTrigger(quickCreateTrigger, quickCreateBlankLines, quickCreateSentinel);
+	}
+
+	/**
+	 * The note template settings in the shape NoteTemplateService expects.
+	 */
+	getNoteTemplateOptions(): NoteTemplateOptions {
+		return {
+			rules: this.settings.noteTemplates,
+			defaultTemplate: this.settings.defaultNoteTemplate,
+			inheritedKeys: this.settings.inheritedKeys,
+		};
+	}
 }
 
 export type ChainPlugin = ThreadsPlugin;
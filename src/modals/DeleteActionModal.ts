@@ -0,0 +1,83 @@
+import { App, Modal, Setting } from "obsidian";
+import { DeleteAction, DeletePreview } from "../services/GraphService";
+import { getNoteName } from "../utility/utils";
+
+/**
+ * Modal shown when a note that other notes follow was deleted or moved into
+ * an untracked folder, if the delete behavior is set to ask.
+ *
+ * Lists the notes that healing would re-point and what they would point to,
+ * and lets the user choose what happens to them. Closing the modal leaves
+ * them as they are, linking to the missing note.
+ */
+export class DeleteActionModal extends Modal {
+    private action: DeleteAction = "orphan";
+    private resolve: ((action: DeleteAction) => void) | null = null;
+
+    /**
+     * @param path - The removed note
+     * @param preview - What each action would change (see `GraphService.previewDelete`)
+     * @param prevField - The prev field's name, for the description
+     */
+    constructor(app: App, private path: string, private preview: DeletePreview, private prevField: string) {
+        super(app);
+    }
+
+    /**
+     * Open the modal and wait for the user's choice.
+     */
+    prompt(): Promise<DeleteAction> {
+        return new Promise(resolve => {
+            this.resolve = resolve;
+            this.open();
+        });
+    }
+
+    onOpen(): void {
+        const { contentEl } = this;
+        const { repointed, subThread } = this.preview;
+        this.setTitle(`${getNoteName(this.path)} left its thread`);
+
+        contentEl.createEl("p", {
+            text: `These notes came after it. Re-pointing rewrites their ${this.prevField} field like this:`,
+        });
+
+        const list = contentEl.createEl("ul", { cls: "chain-delete-preview" });
+        for (const { path, targets } of repointed) {
+            const item = list.createEl("li");
+            item.createSpan({ cls: "chain-delete-note", text: getNoteName(path) });
+            item.createSpan({
+                cls: "chain-delete-targets",
+                text: targets.length > 0 ? ` → ${targets.map(getNoteName).join(", ")}` : " → (start of a new thread)",
+            });
+        }
+
+        const setting = new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText("Leave links")
+                .onClick(() => this.choose("orphan")));
+
+        if (subThread.length > 0) {
+            setting.addButton(button => button
+                .setButtonText(`Delete ${subThread.length} following ${subThread.length === 1 ? "note" : "notes"}`)
+                .setWarning()
+                .onClick(() => this.choose("delete-subthread")));
+        }
+
+        setting.addButton(button => button
+            .setButtonText("Re-point")
+            .setCta()
+            .onClick(() => this.choose("heal")));
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+        this.resolve?.(this.action);
+        this.resolve = null;
+    }
+
+    private choose(action: DeleteAction): void {
+        this.action = action;
+        this.close();
+    }
+}
@@ -0,0 +1,142 @@
+import { Modal, Notice, Setting, TFile } from "obsidian";
+import { checkChainIntegrity, IntegrityIssue, IntegrityIssueType } from "../graph/IntegrityChecker";
+import { getNoteName } from "../utility/utils";
+import type { GraphService } from "../services/GraphService";
+import type ThreadsPlugin from "../main";
+
+/** Section titles for each issue type */
+const ISSUE_TITLES: Record<IntegrityIssueType, string> = {
+    "cycle": "Cycles",
+    "self-loop": "Notes linking to themselves",
+    "multiple-prev": "Notes with more than one previous note",
+    "unresolved": "Links to missing notes",
+};
+
+/**
+ * Modal listing thread integrity problems with one-click fixes.
+ *
+ * Every fix rewrites the prev field of the offending note through
+ * `GraphService.setPrevLinks` as an operation that can be undone, after
+ * which the report is re-run and the chain view re-rendered.
+ */
+export class IntegrityReportModal extends Modal {
+    private issues: IntegrityIssue[];
+
+    private graphService: GraphService;
+
+    constructor(private plugin: ThreadsPlugin) {
+        super(plugin.app);
+        this.graphService = plugin.graphService;
+        this.issues = checkChainIntegrity(this.graphService.graph);
+    }
+
+    onOpen(): void {
+        this.render();
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+    }
+
+    /**
+     * Render the report, grouped by issue type.
+     */
+    private render(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+        this.setTitle("Thread integrity");
+
+        if (this.issues.length === 0) {
+            contentEl.createEl("p", { text: "No problems found. All threads are intact." });
+            return;
+        }
+
+        let currentType: IntegrityIssueType | null = null;
+        for (const issue of this.issues) {
+            if (issue.type !== currentType) {
+                currentType = issue.type;
+                new Setting(contentEl).setName(ISSUE_TITLES[issue.type]).setHeading();
+            }
+            this.renderIssue(issue);
+        }
+    }
+
+    /**
+     * Render a single issue with its fix buttons.
+     */
+    private renderIssue(issue: IntegrityIssue): void {
+        const setting = new Setting(this.contentEl)
+            .setName(getNoteName(issue.path))
+            .setDesc(this.describe(issue));
+
+        const declared = this.graphService.getDeclaredPrevLinks(issue.path);
+
+        if (issue.type === "multiple-prev") {
+            for (const target of issue.targets) {
+                setting.addButton(button => button
+                    .setButtonText(`Keep ${getNoteName(target)}`)
+                    .setDisabled(!declared.includes(target))
+                    .onClick(() => this.applyFix(issue.path, [target], `Keep ${getNoteName(target)} before ${getNoteName(issue.path)}`)));
+            }
+            return;
+        }
+
+        // Every other fix removes the offending links from the prev field
+        const remaining = declared.filter(target => !issue.targets.includes(target));
+        const canFix = remaining.length < declared.length;
+        const label = issue.type === "cycle" ? "Break cycle" : "Remove link";
+
+        setting.addButton(button => {
+            button.setButtonText(label)
+                .setDisabled(!canFix)
+                .onClick(() => this.applyFix(issue.path, remaining, `${label} in ${getNoteName(issue.path)}`));
+            if (canFix) {
+                button.setCta();
+            } else {
+                button.setTooltip("This link comes from another note's next field");
+            }
+        });
+    }
+
+    /**
+     * Describe an issue in one line.
+     */
+    private describe(issue: IntegrityIssue): string {
+        const targets = issue.targets.map(getNoteName).join(", ");
+        switch (issue.type) {
+            case "cycle": {
+                const cycle = issue.cycle ?? [];
+                return `${[...cycle, cycle[0]].map(getNoteName).join(" → ")}. Fixing removes the link from ${getNoteName(issue.path)} to ${targets}.`;
+            }
+            case "self-loop":
+                return "This note is its own previous note.";
+            case "multiple-prev":
+                return `Previous notes: ${targets}. Only the first one is shown in the thread.`;
+            case "unresolved":
+                return `Links to ${targets}, which doesn't exist.`;
+        }
+    }
+
+    /**
+     * Rewrite a note's prev field, then re-run the check and re-render the chain view.
+     * The report is refreshed even if the fix fails, e.g. because the note is gone.
+     *
+     * @param label - What the fix does, shown when it is undone
+     */
+    private async applyFix(path: string, newTargets: string[], label: string): Promise<void> {
+        try {
+            const file = this.app.vault.getAbstractFileByPath(path);
+            if (!(file instanceof TFile)) {
+                throw new Error(`Cannot find file ${path}`);
+            }
+            await this.graphService.transaction(`Fix: ${label}`, transaction => this.graphService.setPrevLinks(file, newTargets, transaction));
+        } catch (error) {
+            console.error(`IntegrityReportModal: Failed to fix ${path}:`, error);
+            new Notice(`Could not fix ${getNoteName(path)}`);
+        }
+
+        this.issues = checkChainIntegrity(this.graphService.graph);
+        this.render();
+        await this.plugin.renderChainView();
+    }
+}
@@ -0,0 +1,77 @@
+import { App, Modal, Setting } from "obsidian";
+import { diffLines } from "../utility/diff";
+import { getNoteName } from "../utility/utils";
+
+/**
+ * How a save conflict was resolved:
+ * - "mine": overwrite the file with the editor's content
+ * - "theirs": discard the editor's changes and load the file's content
+ * - null: decide later (the modal was closed)
+ */
+export type ConflictResolution = "mine" | "theirs" | null;
+
+/**
+ * Modal shown when a note changed on disk while its embedded editor had unsaved edits.
+ *
+ * Shows a line diff from the file's content to the editor's content and lets
+ * the user pick which version to keep. Only the note's body is compared; its
+ * frontmatter is always kept as it is on disk.
+ */
+export class SaveConflictModal extends Modal {
+    private resolution: ConflictResolution = null;
+    private resolve: ((resolution: ConflictResolution) => void) | null = null;
+
+    /**
+     * @param path - The path of the conflicting note
+     * @param diskContent - The note's body as it is on disk
+     * @param editorContent - The note's body in the embedded editor
+     */
+    constructor(app: App, private path: string, private diskContent: string, private editorContent: string) {
+        super(app);
+    }
+
+    /**
+     * Open the modal and wait for the user's choice.
+     */
+    prompt(): Promise<ConflictResolution> {
+        return new Promise(resolve => {
+            this.resolve = resolve;
+            this.open();
+        });
+    }
+
+    onOpen(): void {
+        const { contentEl } = this;
+        this.setTitle(`${getNoteName(this.path)} was changed elsewhere`);
+
+        contentEl.createEl("p", {
+            text: "The note was changed outside the thread view while you were editing it. Lines marked + are only in your version, lines marked − only in the file.",
+        });
+
+        const diffEl = contentEl.createDiv({ cls: "chain-conflict-diff" });
+        for (const line of diffLines(this.diskContent, this.editorContent)) {
+            const prefix = line.type === "added" ? "+ " : line.type === "removed" ? "− " : "  ";
+            diffEl.createDiv({ cls: `chain-conflict-line is-${line.type}`, text: prefix + line.text });
+        }
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText("Keep file version")
+                .onClick(() => this.choose("theirs")))
+            .addButton(button => button
+                .setButtonText("Keep my version")
+                .setCta()
+                .onClick(() => this.choose("mine")));
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+        this.resolve?.(this.resolution);
+        this.resolve = null;
+    }
+
+    private choose(resolution: ConflictResolution): void {
+        this.resolution = resolution;
+        this.close();
+    }
+}
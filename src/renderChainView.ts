@@ -1,30 +1,64 @@
-import { App, Component, MarkdownView, Notice, Platform, TFile } from "obsidian";
-import { buildRenderingChain, ChainSegment } from "./graph/BranchDetector";
+import { MarkdownView, Platform, TFile } from "obsidian";
+import { buildRenderingChain } from "./graph/BranchDetector";
+import { getLinkingNote } from "./graph/ChainQueries";
 import { EmbeddableMarkdownEditor } from "./views/embeddededitor";
 import { extractNoteContent } from "./view/ContentExtractor";
 import { createEmbeddedEditor, cleanupEditor } from "./view/EditorFactory";
+import { createCreateButton, createInsertDivider, createMissingNotePlaceholder, createNoteIcon, INJECTED_SELECTOR } from "./view/ChainElements";
+import { renderPreviewChain } from "./view/PreviewRenderer";
+import { createBranchElement } from "./view/BranchElement";
+import { createDragHandle, enableDragReorder } from "./view/DragReorder";
+import { estimateNoteHeight, LazyMounter } from "./view/LazyMount";
 import type ChainPlugin from "./main";
 
-/** SVG icon for the note navigation button */
-const NOTE_ICON_SVG = `<svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M6 22a2 2 0 0 1-2-2V4a2 2 0 0 1 2-2h8a2.4 2.4 0 0 1 1.704.706l3.588 3.588A2.4 2.4 0 0 1 20 8v12a2 2 0 0 1-2 2z"/><path d="M14 2v5a1 1 0 0 0 1 1h5"/><path d="M10 9H8"/><path d="M16 13H8"/><path d="M16 17H8"/></svg>`;
+/**
+ * A note container injected into a MarkdownView, with its editor once mounted.
+ */
+type MountedNote = {
+    container: HTMLElement;
+    editor: EmbeddableMarkdownEditor | null;
+};
+
+/**
+ * What the chain view has injected into one MarkdownView's editor.
+ */
+type ChainRenderState = {
+    cmSizer: HTMLElement;
+    /** Note containers by path; kept across renders so editors keep cursor, folds and history */
+    notes: Map<string, MountedNote>;
+    /** Branches, dividers and the create button; cheap, so recreated on every render */
+    decorations: HTMLElement[];
+    lazyMounter: LazyMounter | null;
+    disableDragReorder: (() => void) | null;
+    disposed: boolean;
+};
 
-/** SVG icon for the create note button */
-const CREATE_ICON_SVG = `<svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M12 5v14"/><path d="M5 12h14"/></svg>`;
+/** Render state of every MarkdownView the chain view is shown in */
+const renderStates: WeakMap<MarkdownView, ChainRenderState> = new WeakMap();
+
+/** Cleanup of the last Reading view render of each MarkdownView; Reading view renders don't reconcile */
+const previewCleanups: WeakMap<MarkdownView, () => void> = new WeakMap();
 
 /**
  * Main function to render the chain view.
  * It finds the previous and next notes, creates embedded editors for them,
- * and injects them into the current MarkdownView's DOM.
- * 
+ * and injects them into the current MarkdownView's DOM. In Reading view the
+ * notes are rendered as markdown instead (see `renderPreviewChain`).
+ *
+ * Rendering again reconciles the new chain with what is already mounted:
+ * note containers are keyed by path, so only notes that joined or left the
+ * chain are created or removed, and the others are moved into place with
+ * their editors intact.
+ *
+ * Only the notes within `renderWindowSize` of the active note get an editor
+ * right away; the others start as placeholders and are mounted as they
+ * scroll into view (see `LazyMounter`).
+ *
  * @param plugin - The plugin instance
  * @param view - Optional specific view to render into (defaults to active view)
  * @returns A cleanup function to properly dispose of created editors, or undefined if nothing was rendered
  */
 export const renderChainView = async (plugin: ChainPlugin, view?: MarkdownView): Promise<(() => void) | undefined> => {
-    // Track all created editors for cleanup
-    const createdEditors: EmbeddableMarkdownEditor[] = [];
-    const createdContainers: HTMLElement[] = [];
-
     // Get the view to render into
     const activeView = view || plugin.app.workspace.getActiveViewOfType(MarkdownView);
     if (!activeView) return undefined;
@@ -36,124 +70,163 @@ export const renderChainView = async (plugin: ChainPlugin, view?: MarkdownView):
     const { containerEl } = activeView;
     const mode = activeView.getMode();
 
-    // SAFETY CHECK: Only work in 'source' mode (Edit mode)
-    // Preview mode has a completely different DOM structure and rendering pipeline.
-    if (mode !== "source") {
-        // If we switched to preview mode, clean up our injected elements
-        const existing = containerEl.querySelectorAll(".chain-thread-container, .chain-create-button-container");
-        existing.forEach(el => el.remove());
-        return undefined;
+    // BUILD THE RENDERING CHAIN
+    // Include create button only on mobile (desktop uses empty-line detection)
+    const chainSegments = buildRenderingChain(plugin.graph, currentFile.path, Platform.isMobile, plugin.branchSelections);
+
+    // Preview mode has a completely different DOM structure and rendering pipeline,
+    // so it gets its own read-only renderer
+    if (mode === "preview") {
+        disposeRenderState(activeView);
+        disposePreview(activeView);
+        containerEl.querySelectorAll(INJECTED_SELECTOR).forEach(el => el.remove());
+
+        const cleanup = await renderPreviewChain(plugin, activeView, chainSegments, currentFile.path);
+        if (!cleanup) return undefined;
+        previewCleanups.set(activeView, cleanup);
+        return () => disposePreview(activeView);
     }
 
+    // Unload the markdown rendered while the view was in Reading view
+    disposePreview(activeView);
+
     // FIND THE INJECTION POINT
     // The .cm-sizer is the container inside CodeMirror that holds the content.
     // We inject our editors directly into this container.
     const cmSizer = containerEl.querySelector(".cm-sizer");
-    if (!cmSizer) return undefined;
+    const contentContainer = cmSizer?.querySelector(":scope > .cm-contentContainer");
+    if (!(cmSizer instanceof HTMLElement) || !contentContainer) return undefined;
 
     // Save scroll position before DOM manipulation to prevent scroll jump
     const cmScroller = containerEl.querySelector(".cm-scroller") as HTMLElement | null;
     const savedScrollTop = cmScroller?.scrollTop ?? 0;
 
-    // CLEANUP: Remove any existing injected views to avoid duplicates
-    // This runs every time we re-render (e.g. when switching files)
-    const existing = cmSizer.querySelectorAll(".chain-thread-container, .chain-create-button-container");
-    existing.forEach(el => el.remove());
+    const state = getRenderState(activeView, cmSizer, cmScroller);
 
-    // BUILD THE RENDERING CHAIN
-    // Include create button only on mobile (desktop uses empty-line detection)
-    const chainSegments = buildRenderingChain(plugin.graph, currentFile.path, Platform.isMobile);
+    // CLEANUP: Remove injected elements this render doesn't own (e.g. left over
+    // from Reading view) and the decorations of the previous render
+    const owned = new Set([...state.notes.values()].map(note => note.container));
+    containerEl.querySelectorAll(INJECTED_SELECTOR).forEach(el => {
+        if (!owned.has(el as HTMLElement)) el.remove();
+    });
+    state.decorations = [];
 
     // Find the index of the active note in the chain
     const activeNoteIndex = chainSegments.findIndex(s => s.type === "note" && s.path === currentFile.path);
 
-    // INJECTION LOGIC:
-    // The .cm-sizer has 3 default children:
-    // [0] .cm-gutters (line numbers)
-    // [1] .cm-layer (selection/cursor layer)
-    // [2] .cm-contentContainer (the actual document content)
+    // Notes further than the window from the active note are mounted lazily
+    const notePaths = chainSegments.filter(s => s.type === "note").map(s => s.path);
+    const activeNotePosition = notePaths.indexOf(currentFile.path);
+    const windowSize = plugin.settings.renderWindowSize;
 
-    const contentContainerIndex = 2; // .cm-contentContainer is at index 2
-    let insertionIndex = contentContainerIndex;
+    // Notes that left the chain (or became the active note) are removed
+    for (const path of [...state.notes.keys()]) {
+        if (path === currentFile.path || !notePaths.includes(path)) {
+            removeNote(state, path);
+        }
+    }
+
+    // LAYOUT:
+    // Everything before the active note goes above the .cm-contentContainer
+    // (the active note's own editor), everything after it below
+    const before: HTMLElement[] = [];
+    const after: HTMLElement[] = [];
+    let createButton: HTMLElement | null = null;
+    let lastNotePath: string | null = null;
 
     for (let i = 0; i < chainSegments.length; i++) {
         const segment = chainSegments[i];
+        const side = i <= activeNoteIndex ? before : after;
 
         // Handle different segment types
         if (segment.type === "create-button") {
-            // Create the button container
-            const buttonContainer = document.createElement("div");
-            buttonContainer.className = "chain-create-button-container";
-
-            const createButton = document.createElement("button");
-            createButton.className = "chain-create-button";
-            createButton.innerHTML = `${CREATE_ICON_SVG}<span>Continue thread</span>`;
-            createButton.addEventListener("click", async (e) => {
-                e.preventDefault();
-                e.stopPropagation();
-                await plugin.noteCreationService.createChainedNote(segment.path);
-            });
-
-            buttonContainer.appendChild(createButton);
-            cmSizer.appendChild(buttonContainer);
-            createdContainers.push(buttonContainer);
+            createButton = createCreateButton(plugin, segment.path);
+            state.decorations.push(createButton);
             continue;
         }
 
-        // Skip the active note itself (it's already rendered by Obsidian)
-        if (segment.path === currentFile.path) {
-            insertionIndex++; // Move past the content container
+        if (segment.type === "branch") {
+            // Reply list goes right below its parent note, on either side of the active note
+            const branchContainer = createBranchElement(plugin, segment, i < activeNoteIndex);
+            state.decorations.push(branchContainer);
+            side.push(branchContainer);
             continue;
         }
 
-        const { content, yaml } = await extractNoteContent(plugin.app, segment.path);
+        // Notes that are linked to but don't exist get a placeholder instead of an editor
+        if (!(plugin.app.vault.getAbstractFileByPath(segment.path) instanceof TFile)) {
+            const linkingPath = getLinkingNote(plugin.graph, segment.path) ?? currentFile.path;
+            const placeholder = createMissingNotePlaceholder(plugin, segment.path, linkingPath);
+            state.decorations.push(placeholder);
+            side.push(placeholder);
+            lastNotePath = null;
+            continue;
+        }
 
-        // Create a container for this note
-        const container = document.createElement("div");
+        // Between two notes, offer to insert a new note (after the previous note's replies)
+        if (lastNotePath) {
+            const divider = createInsertDivider(plugin, lastNotePath);
+            state.decorations.push(divider);
+            side.push(divider);
+        }
+        lastNotePath = segment.path;
+
+        // Skip the active note itself (it's already rendered by Obsidian)
+        if (segment.path === currentFile.path) continue;
+
+        // Reuse the note's container if it is already mounted
+        let note = state.notes.get(segment.path);
+        if (!note) {
+            note = { container: createNoteContainer(plugin, segment.path), editor: null };
+            state.notes.set(segment.path, note);
+        }
 
         // Determine if this should be rendered BEFORE or AFTER active note
         const isPrevNote = i < activeNoteIndex;
+        note.container.toggleClass("chain-prev", isPrevNote);
+        note.container.toggleClass("chain-next", !isPrevNote);
+        side.push(note.container);
+    }
 
-        // Apply CSS classes
-        const baseClass = isPrevNote ? "chain-prev" : "chain-next";
-        container.className = `chain-thread-container ${baseClass}`;
-
-        // Add clickable file icon (transparent, positioned outside left)
-        const noteIcon = document.createElement("div");
-        noteIcon.className = "chain-note-icon";
-        noteIcon.innerHTML = NOTE_ICON_SVG;
-        noteIcon.addEventListener("click", (e) => {
-            e.preventDefault();
-            e.stopPropagation();
-            plugin.app.workspace.openLinkText(segment.path, "", false);
-        });
-        container.appendChild(noteIcon);
-
-        // Create the editor inside it
-        const editor = await createEmbeddedEditor(plugin, container, content, segment.path, yaml);
-        createdEditors.push(editor);
-        createdContainers.push(container);
-
-        // Insert the container
-        if (isPrevNote) {
-            // Insert BEFORE the content container
-            if (cmSizer.children.length > insertionIndex) {
-                cmSizer.insertBefore(container, cmSizer.children[insertionIndex]);
-            } else {
-                cmSizer.appendChild(container);
-            }
-            insertionIndex++; // Adjust for next insertion
+    // Move elements into place, leaving the ones already in place untouched
+    // (moving an editor's DOM would blur it)
+    let anchor: Element = contentContainer;
+    for (const el of [...before].reverse()) {
+        if (el.nextElementSibling !== anchor) cmSizer.insertBefore(el, anchor);
+        anchor = el;
+    }
+    anchor = contentContainer;
+    for (const el of after) {
+        if (anchor.nextElementSibling !== el) cmSizer.insertBefore(el, anchor.nextElementSibling);
+        anchor = el;
+    }
+    if (createButton) {
+        cmSizer.appendChild(createButton);
+    }
+
+    // MOUNT EDITORS: now for notes within the window, once scrolled into view for the others
+    for (const path of notePaths) {
+        const note = state.notes.get(path);
+        // Mounted editors follow changes to their note themselves (see createEmbeddedEditor)
+        if (!note || note.editor) continue;
+
+        const inWindow = Math.abs(notePaths.indexOf(path) - activeNotePosition) <= windowSize;
+        if (state.lazyMounter?.isPending(note.container)) {
+            if (inWindow) await state.lazyMounter.mountNow(note.container);
+        } else if (inWindow || !state.lazyMounter) {
+            await mountNote(plugin, state, note, path);
         } else {
-            // Insert AFTER the content container
-            if (cmSizer.children.length > insertionIndex) {
-                cmSizer.insertBefore(container, cmSizer.children[insertionIndex]);
-            } else {
-                cmSizer.appendChild(container);
-            }
-            insertionIndex++; // Adjust for next insertion
+            const mounting = note;
+            state.lazyMounter.observe(note.container, estimateNoteHeight(plugin.app, path), () => mountNote(plugin, state, mounting, path));
         }
+
+        if (state.disposed) return undefined;
     }
 
+    // Notes can be dragged by their handle to reorder the thread
+    state.disableDragReorder?.();
+    state.disableDragReorder = enableDragReorder(plugin, cmSizer, currentFile.path);
+
     // Restore scroll position after DOM manipulation
     if (cmScroller) {
         // Use requestAnimationFrame to ensure DOM has updated
@@ -163,15 +236,114 @@ export const renderChainView = async (plugin: ChainPlugin, view?: MarkdownView):
     }
 
     // Return cleanup function
-    return () => {
-        // Unload all created editors
-        for (const editor of createdEditors) {
-            cleanupEditor(editor);
-        }
+    return () => disposeRenderState(activeView);
+};
 
-        // Remove all created containers from DOM
-        for (const container of createdContainers) {
-            container.remove();
-        }
+/**
+ * Count the notes injected into a view and how many of them have an editor.
+ *
+ * @param view - The view to inspect
+ * @returns The number of injected notes and mounted editors
+ */
+export const getRenderStats = (view: MarkdownView): { notes: number; editors: number } => {
+    const notes = [...(renderStates.get(view)?.notes.values() ?? [])];
+    return { notes: notes.length, editors: notes.filter(note => note.editor).length };
+};
+
+/**
+ * Get the render state of a view, starting over if its editor DOM was replaced.
+ */
+const getRenderState = (view: MarkdownView, cmSizer: HTMLElement, cmScroller: HTMLElement | null): ChainRenderState => {
+    const existing = renderStates.get(view);
+    if (existing && existing.cmSizer === cmSizer && !existing.disposed) {
+        return existing;
+    }
+
+    disposeRenderState(view);
+    const state: ChainRenderState = {
+        cmSizer,
+        notes: new Map(),
+        decorations: [],
+        lazyMounter: cmScroller ? new LazyMounter(cmScroller) : null,
+        disableDragReorder: null,
+        disposed: false,
     };
-};
\ No newline at end of file
+    renderStates.set(view, state);
+    return state;
+};
+
+/**
+ * Remove everything the chain view injected into a view and unload its editors.
+ */
+const disposeRenderState = (view: MarkdownView): void => {
+    const state = renderStates.get(view);
+    if (!state) return;
+
+    state.disposed = true;
+    state.lazyMounter?.disconnect();
+    state.disableDragReorder?.();
+
+    for (const path of [...state.notes.keys()]) {
+        removeNote(state, path);
+    }
+    for (const decoration of state.decorations) {
+        decoration.remove();
+    }
+
+    renderStates.delete(view);
+};
+
+/**
+ * Unload the markdown the last Reading view render created in a view and remove it.
+ */
+const disposePreview = (view: MarkdownView): void => {
+    const cleanup = previewCleanups.get(view);
+    if (!cleanup) return;
+
+    previewCleanups.delete(view);
+    cleanup();
+};
+
+/**
+ * Create an empty note container with its file icon and drag handle.
+ */
+const createNoteContainer = (plugin: ChainPlugin, path: string): HTMLElement => {
+    const container = document.createElement("div");
+    container.className = "chain-thread-container";
+    container.dataset.path = path;
+
+    // Add clickable file icon and drag handle (transparent, positioned outside left)
+    container.appendChild(createNoteIcon(plugin, path));
+    container.appendChild(createDragHandle(path));
+    return container;
+};
+
+/**
+ * Create a note's editor, unless the note was removed in the meantime.
+ */
+const mountNote = async (plugin: ChainPlugin, state: ChainRenderState, note: MountedNote, path: string): Promise<void> => {
+    const { content } = await extractNoteContent(plugin.app, path);
+    if (state.disposed || state.notes.get(path) !== note || note.editor) return;
+
+    const editor = await createEmbeddedEditor(plugin, note.container, content, path);
+    if (state.disposed || state.notes.get(path) !== note) {
+        cleanupEditor(editor);
+        return;
+    }
+    note.editor = editor;
+};
+
+/**
+ * Unload a note's editor and remove its container.
+ */
+const removeNote = (state: ChainRenderState, path: string): void => {
+    const note = state.notes.get(path);
+    if (!note) return;
+
+    if (note.editor) {
+        cleanupEditor(note.editor);
+    }
+    state.lazyMounter?.unobserve(note.container);
+    note.container.remove();
+    state.notes.delete(path);
+};
@@ -0,0 +1,65 @@
+import { App, normalizePath } from "obsidian";
+import { ChainGraph, LinkFields } from "../graph/GraphBuilder";
+
+/** Bump when the serialized format or the graph semantics change */
+export const GRAPH_CACHE_VERSION = 3;
+
+/**
+ * The chain graph as persisted between sessions.
+ */
+export type GraphCacheData = {
+    version: number;
+    /** Link fields the graph was built with; a change invalidates the cache */
+    linkFields: LinkFields;
+    /** Folders left out of the graph; a change invalidates the cache (missing in older caches) */
+    untrackedFolders?: string[];
+    /** Modification time of every file at the moment its frontmatter was parsed */
+    mtimes: Record<string, number>;
+    /** Graphology export of the chain graph */
+    graph: ReturnType<ChainGraph["export"]>;
+};
+
+/**
+ * Reads and writes the graph cache file in the plugin's folder.
+ *
+ * The cache is kept out of `data.json` so that saving settings doesn't
+ * rewrite (and loading settings doesn't parse) the whole graph.
+ */
+export class GraphCacheStore {
+    private path: string;
+
+    constructor(private app: App, pluginDir: string) {
+        this.path = normalizePath(`${pluginDir}/graph-cache.json`);
+    }
+
+    /**
+     * Load the cache, or null if it is missing, unreadable or from another version.
+     */
+    async load(): Promise<GraphCacheData | null> {
+        try {
+            if (!(await this.app.vault.adapter.exists(this.path))) {
+                return null;
+            }
+
+            const data = JSON.parse(await this.app.vault.adapter.read(this.path)) as GraphCacheData;
+            if (data.version !== GRAPH_CACHE_VERSION) {
+                return null;
+            }
+            return data;
+        } catch (error) {
+            console.error("GraphCacheStore: Failed to load graph cache:", error);
+            return null;
+        }
+    }
+
+    /**
+     * Write the cache to disk.
+     */
+    async save(data: GraphCacheData): Promise<void> {
+        try {
+            await this.app.vault.adapter.write(this.path, JSON.stringify(data));
+        } catch (error) {
+            console.error("GraphCacheStore: Failed to save graph cache:", error);
+        }
+    }
+}
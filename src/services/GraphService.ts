@@ -1,7 +1,60 @@
-import { App, TFile, Events } from "obsidian";
-import { ChainGraph } from "../graph/GraphBuilder";
-import { buildChainGraph, updateNodeEdges } from "../graph/ChainQueries";
-import { ChainHealer } from "../graph/ChainHealer";
+import { App, TFile, Events, normalizePath } from "obsidian";
+import { ChainGraph, DEFAULT_LINK_FIELDS, LinkFields } from "../graph/GraphBuilder";
+import { buildChainGraph, getSubThread, parseLinkField, ResolvedLink, updateNodeEdges } from "../graph/ChainQueries";
+import { ChainHealer, PrevLinkWriter } from "../graph/ChainHealer";
+import { getLinkName, getNoteName, updateFrontmatter } from "../utility/utils";
+import { GraphCacheData, GRAPH_CACHE_VERSION } from "./GraphCache";
+import { DeleteBehavior } from "../settings/ThreadsSettings";
+
+/**
+ * What to do with the notes that followed a removed note (see `DeleteBehavior`).
+ */
+export type DeleteAction = Exclude<DeleteBehavior, "ask">;
+
+/**
+ * What removing a note from its thread would change.
+ */
+export type DeletePreview = {
+    /** The notes that followed it, with the prev targets healing would give them */
+    repointed: { path: string; targets: string[] }[];
+    /** The notes deleting its sub-thread would delete */
+    subThread: string[];
+};
+
+/**
+ * A change the plugin made to a note, as recorded in the thread history.
+ * - prev: the note's prev links before and after, by path
+ * - content: the whole file before and after
+ * - create/delete: a file the plugin created or deleted, with the content
+ *   to recreate it with (filled in for created files when they are undone)
+ */
+export type ThreadChange =
+    | { type: "prev"; path: string; before: ResolvedLink[]; after: ResolvedLink[] }
+    | { type: "content"; path: string; before: string; after: string }
+    | { type: "create" | "delete"; path: string; content: string };
+
+/**
+ * A thread operation (healing, creating, splitting, merging, moving...) that
+ * is undone and redone as a whole.
+ */
+export type ThreadTransaction = {
+    label: string;
+    changes: ThreadChange[];
+};
+
+/**
+ * The outcome of undoing or redoing a thread operation:
+ * - blocked: a note changed since, so nothing was touched
+ * - failed: a write failed partway; the operation is dropped from the history
+ */
+export type HistoryResult =
+    | { status: "empty" }
+    | { status: "done"; label: string }
+    | { status: "blocked"; label: string; reason: string }
+    | { status: "failed"; label: string };
+
+/** How many thread operations can be undone */
+const MAX_HISTORY = 50;
 
 /**
  * Centralized service for managing the chain graph.
@@ -11,17 +64,39 @@ import { ChainHealer } from "../graph/ChainHealer";
  * 2. Handles all graph mutations (add, update, rename, delete)
  * 3. Emits events when the graph changes
  * 4. Coordinates chain healing after deletions
+ * 5. Attaches links to notes that didn't exist yet once they are created
+ * 6. Serializes the graph so startup can skip unchanged files
+ * 7. Records the changes it makes to notes so thread operations can be undone
+ * 8. Leaves notes in untracked folders out of the graph
  */
 export class GraphService extends Events {
     private app: App;
     private _graph: ChainGraph;
     private healer: ChainHealer;
+    private _linkFields: LinkFields = DEFAULT_LINK_FIELDS;
+    private _untrackedFolders: string[] = [];
+
+    /** Whether the graph has been built (from scratch or from cache) */
+    private _isReady = false;
+
+    /** Modification time of each file when its frontmatter was last parsed into the graph */
+    private parsedMtimes: Map<string, number> = new Map();
+
+    /** Thread operations that can be undone (last one last) and redone */
+    private undoStack: ThreadTransaction[] = [];
+    private redoStack: ThreadTransaction[] = [];
+
+    /** The operations still running, whose changes are being recorded */
+    private openTransactions: Set<ThreadTransaction> = new Set();
+
+    /** Notes the plugin trashed itself, which must not be healed when their deletion comes in */
+    private expectedDeletes: Set<string> = new Set();
 
     constructor(app: App) {
         super();
         this.app = app;
         this._graph = new ChainGraph();
-        this.healer = new ChainHealer(this._graph, app);
+        this.healer = this.createHealer();
     }
 
     /**
@@ -31,15 +106,132 @@ export class GraphService extends Events {
         return this._graph;
     }
 
+    /**
+     * Whether the graph has been built yet.
+     */
+    get isReady(): boolean {
+        return this._isReady;
+    }
+
+    /**
+     * Get the frontmatter keys used to link notes.
+     */
+    get linkFields(): LinkFields {
+        return this._linkFields;
+    }
+
+    /**
+     * Set the frontmatter keys used to link notes.
+     * The graph is not rebuilt here; call `rebuild()` once the fields are final.
+     */
+    setLinkFields(fields: LinkFields): void {
+        this._linkFields = { ...fields };
+        this.healer = this.createHealer();
+    }
+
+    /**
+     * Set the folders whose notes are left out of the graph.
+     * The graph is not rebuilt here; call `rebuild()` once the folders are final.
+     */
+    setUntrackedFolders(folders: string[]): void {
+        this._untrackedFolders = folders.map(folder => normalizePath(folder)).filter(folder => folder !== "/");
+    }
+
+    /**
+     * Whether a note is part of threads, i.e. not in an untracked folder or its subfolders.
+     */
+    isTracked(path: string): boolean {
+        return !this._untrackedFolders.some(folder => path === folder || path.startsWith(`${folder}/`));
+    }
+
     /**
      * Initialize the graph by building it from all vault files.
      * Should be called once during plugin startup after layout is ready.
      */
     initialize(): void {
         console.log("GraphService: Initializing...");
-        this._graph = buildChainGraph(this.app);
-        this.healer = new ChainHealer(this._graph, this.app);
+        this.buildFromScratch();
         console.log(`GraphService: Initialized with ${this._graph.order} nodes, ${this._graph.size} edges`);
+        this.trigger("graph-updated");
+    }
+
+    /**
+     * Initialize the graph from a persisted cache, re-parsing only the files
+     * whose modification time changed since they were cached.
+     * Falls back to a full build when there is no usable cache.
+     * 
+     * @param cache - The cache loaded from disk, or null if there is none
+     */
+    initializeFromCache(cache: GraphCacheData | null): void {
+        if (!cache || !this.isCacheCompatible(cache)) {
+            this.initialize();
+            return;
+        }
+
+        const graph = new ChainGraph();
+        try {
+            graph.import(cache.graph);
+        } catch (error) {
+            console.error("GraphService: Invalid graph cache, rebuilding:", error);
+            this.initialize();
+            return;
+        }
+
+        this._graph = graph;
+        this.healer = this.createHealer();
+        this.parsedMtimes = new Map(Object.entries(cache.mtimes));
+        this._isReady = true;
+
+        // Re-parse new and modified files
+        const files = this.app.vault.getMarkdownFiles();
+        const existingPaths = new Set<string>();
+        const createdFiles: TFile[] = [];
+
+        for (const file of files) {
+            if (!this.isTracked(file.path)) continue;
+            existingPaths.add(file.path);
+            if (this.parsedMtimes.get(file.path) === file.stat.mtime) continue;
+            if (!this.parsedMtimes.has(file.path)) createdFiles.push(file);
+
+            const metadata = this.app.metadataCache.getFileCache(file);
+            if (graph.hasNode(file.path)) {
+                graph.mergeNodeAttributes(file.path, {
+                    resolved: true,
+                    aliases: metadata?.frontmatter?.aliases || [],
+                    createdTime: file.stat.ctime
+                });
+            }
+            updateNodeEdges(graph, file, this.app, this._linkFields);
+            this.parsedMtimes.set(file.path, file.stat.mtime);
+        }
+
+        // Drop files deleted (or renamed) while the plugin was not running first,
+        // so links to their old paths are unresolved when pending links are attached
+        for (const path of [...this.parsedMtimes.keys()]) {
+            if (existingPaths.has(path)) continue;
+            graph.handle_delete(path);
+            this.parsedMtimes.delete(path);
+        }
+
+        // Attach links to notes created while the plugin was not running
+        for (const file of createdFiles) {
+            this.resolvePendingLinks(file);
+        }
+
+        this.trigger("graph-updated");
+    }
+
+    /**
+     * Serialize the graph and the parse times of its files for the cache.
+     */
+    serialize(): GraphCacheData {
+        return {
+            version: GRAPH_CACHE_VERSION,
+            linkFields: { ...this._linkFields },
+            untrackedFolders: [...this._untrackedFolders],
+            mtimes: Object.fromEntries(this.parsedMtimes),
+            graph: this._graph.export()
+        };
     }
 
     /**
@@ -48,8 +240,7 @@ export class GraphService extends Events {
      */
     rebuild(): void {
         console.log("GraphService: Rebuilding graph...");
-        this._graph = buildChainGraph(this.app);
-        this.healer = new ChainHealer(this._graph, this.app);
+        this.buildFromScratch();
         this.trigger("graph-updated");
     }
 
@@ -58,39 +249,370 @@ export class GraphService extends Events {
      * Called when file metadata changes.
      */
     updateFile(file: TFile): void {
-        updateNodeEdges(this._graph, file, this.app);
+        if (!this.isTracked(file.path)) return;
+        updateNodeEdges(this._graph, file, this.app, this._linkFields);
+        this.parsedMtimes.set(file.path, file.stat.mtime);
+        this.trigger("graph-updated", file.path);
+    }
+
+    /**
+     * Whether a file's frontmatter has been parsed into the graph.
+     * False for files created since the graph was built, until their metadata is read.
+     */
+    isParsed(path: string): boolean {
+        return this.parsedMtimes.has(path);
+    }
+
+    /**
+     * Handle a file creation.
+     * Adds the note to the graph and attaches the notes that already linked to it.
+     * Its own links are added once its metadata is read (see `updateFile`).
+     */
+    handleCreate(file: TFile): void {
+        if (!this.isTracked(file.path)) return;
+
+        if (this._graph.hasNode(file.path)) {
+            // A deleted note re-created at the same path keeps the links to it
+            this._graph.mergeNodeAttributes(file.path, { resolved: true, createdTime: file.stat.ctime });
+        } else {
+            this._graph.safe_add_node(file.path, { resolved: true, createdTime: file.stat.ctime });
+        }
+
+        this.resolvePendingLinks(file);
         this.trigger("graph-updated", file.path);
     }
 
     /**
      * Handle a file rename.
-     * Updates the graph node ID while preserving edges.
+     * Updates the graph node ID while preserving edges. A note moved out of an
+     * untracked folder joins the graph like a new note; one moved into an
+     * untracked folder should be removed with `handleDelete` instead.
      */
     handleRename(oldPath: string, newPath: string): void {
+        if (!this.isTracked(newPath)) {
+            this._graph.handle_delete(oldPath);
+            this.parsedMtimes.delete(oldPath);
+            return;
+        }
+
+        if (!this.isTracked(oldPath)) {
+            const file = this.app.vault.getAbstractFileByPath(newPath);
+            if (file instanceof TFile) {
+                this.handleCreate(file);
+                this.updateFile(file);
+            }
+            return;
+        }
+
         console.log(`GraphService: Renaming node ${oldPath} -> ${newPath}`);
         this._graph.safe_rename_node(oldPath, newPath);
+
+        const mtime = this.parsedMtimes.get(oldPath);
+        this.parsedMtimes.delete(oldPath);
+        if (mtime !== undefined) {
+            this.parsedMtimes.set(newPath, mtime);
+        }
+
+        this.renameInHistory(oldPath, newPath);
+
+        // Links to a missing note with the new name now point to this note
+        const file = this.app.vault.getAbstractFileByPath(newPath);
+        if (file instanceof TFile) {
+            this.resolvePendingLinks(file);
+        }
+
         this.trigger("graph-updated", newPath);
     }
 
     /**
-     * Handle a file deletion.
-     * Heals broken chains and updates the graph.
+     * Make sure prev links still point where the graph says after notes were renamed.
+     * 
+     * Obsidian only rewrites links itself when "Automatically update internal links"
+     * is on, and a bare `[[Name]]` can start resolving to another note when a rename
+     * makes names collide. This checks the prev field of every note that links to a
+     * renamed note or to another note with its old or new name, plus the renamed notes
+     * themselves (links resolve relative to the linking note), and rewrites the ones
+     * that resolve differently from the graph, path-qualified where needed.
+     * 
+     * @param renames - The renamed notes, as old and new paths
+     * @param transaction - The operation to record the rewrites in
+     * @returns The paths of notes whose prev links could not be fixed
+     */
+    async repairPrevLinks(renames: { oldPath: string; newPath: string }[], transaction: ThreadTransaction): Promise<string[]> {
+        const names = new Set(renames.flatMap(({ oldPath, newPath }) => [getNoteName(oldPath), getNoteName(newPath)]));
+
+        const candidates = new Set<string>();
+        this._graph.forEachNode((node) => {
+            if (!names.has(getNoteName(node))) return;
+            this._graph.forEachInEdge(node, (edge, attr, source) => {
+                if (attr.field === "prev") candidates.add(source);
+            });
+        });
+        for (const { newPath } of renames) {
+            if (this._graph.hasNode(newPath)) candidates.add(newPath);
+        }
+
+        const unfixed: string[] = [];
+        for (const path of candidates) {
+            const file = this.app.vault.getAbstractFileByPath(path);
+            if (!(file instanceof TFile)) continue;
+
+            // Links to missing notes can't be checked, so only compare links to existing notes
+            const expected = this.getDeclaredPrevLinks(path);
+            const expectedExisting = expected.filter(target => this.app.vault.getAbstractFileByPath(target) instanceof TFile);
+            if (this.resolvesTo(file, expectedExisting)) continue;
+
+            try {
+                await this.setPrevLinks(file, expected, transaction);
+            } catch (error) {
+                console.error(`GraphService: Failed to repair prev links of ${path}:`, error);
+                unfixed.push(path);
+                continue;
+            }
+
+            // The link text written must resolve back to the intended notes
+            const stillBroken = expectedExisting.some(target =>
+                this.app.metadataCache.getFirstLinkpathDest(getLinkName(this.app, target, path), path)?.path !== target
+            );
+            if (stillBroken) unfixed.push(path);
+        }
+
+        return unfixed;
+    }
+
+    /**
+     * Whether a note's prev field, as currently cached, resolves to exactly the given notes.
+     */
+    private resolvesTo(file: TFile, targets: string[]): boolean {
+        const value = this.app.metadataCache.getFileCache(file)?.frontmatter?.[this._linkFields.prev];
+        const resolved = new Set(parseLinkField(this.app, value, file.path)
+            .map(link => link.path)
+            .filter(path => this.app.vault.getAbstractFileByPath(path) instanceof TFile));
+        return resolved.size === new Set(targets).size && targets.every(target => resolved.has(target));
+    }
+
+    /**
+     * Describe what removing a note from its thread would change, so the user can choose.
      * 
-     * @param file - The deleted file
+     * @param path - The deleted note, or the note's path before it moved into an untracked folder
+     * @returns What would change, or null if no note follows it (or the plugin trashed it itself)
      */
-    async handleDelete(file: TFile): Promise<void> {
-        const deletedPath = file.path;
-        console.log(`GraphService: Handling deletion of ${deletedPath}`);
+    previewDelete(path: string): DeletePreview | null {
+        if (this.expectedDeletes.has(path)) return null;
 
-        // First, heal the chain (reconnect prev/next nodes)
-        await this.healer.healAfterDelete(deletedPath);
+        const repointed = this.healer.previewHeal(path);
+        if (repointed.length === 0) return null;
+        return { repointed, subThread: getSubThread(this._graph, path) };
+    }
+
+    /**
+     * Handle a file deletion, or a note moving into an untracked folder.
+     * Deals with the notes that followed it, then updates the graph.
+     * 
+     * @param deletedPath - The deleted note, or the note's path before it moved
+     * @param action - What to do with the notes that followed it
+     */
+    async handleDelete(deletedPath: string, action: DeleteAction = "heal"): Promise<void> {
+        console.log(`GraphService: Handling deletion of ${deletedPath} (${action})`);
+        const name = getNoteName(deletedPath);
+
+        // Notes the plugin trashed itself are left as they are: it already dealt with the notes that followed them
+        if (this.expectedDeletes.delete(deletedPath)) {
+            action = "orphan";
+        }
+
+        if (action === "heal") {
+            // Heal the chain (reconnect prev/next nodes)
+            await this.transaction(`Heal thread after deleting ${name}`, transaction =>
+                this.healer.healAfterDelete(deletedPath, this.prevLinkWriter(transaction))
+            );
+        } else if (action === "delete-subthread") {
+            await this.transaction(`Delete thread after ${name}`, transaction => this.trashSubThread(deletedPath, transaction));
+        }
+        // "orphan": the notes that followed keep linking to the missing note
 
         // Then remove the node from the graph
         this._graph.handle_delete(deletedPath);
+        this.parsedMtimes.delete(deletedPath);
 
         this.trigger("graph-updated");
     }
 
+    /**
+     * Move every note of a note's sub-thread to the trash, recording them so they can be recreated.
+     */
+    private async trashSubThread(path: string, transaction: ThreadTransaction): Promise<void> {
+        for (const notePath of getSubThread(this._graph, path)) {
+            const file = this.app.vault.getAbstractFileByPath(notePath);
+            if (!(file instanceof TFile)) continue;
+
+            await this.trashNote(file, transaction);
+        }
+    }
+
+    /**
+     * Move a note to the trash without healing its thread.
+     * 
+     * @param transaction - The operation to record the deletion in, or null to leave it out of the history
+     * @returns The note's content before it was trashed
+     */
+    private async trashNote(file: TFile, transaction: ThreadTransaction | null): Promise<string> {
+        const content = await this.app.vault.read(file);
+        this.record(transaction, { type: "delete", path: file.path, content });
+        this.expectedDeletes.add(file.path);
+        await this.app.fileManager.trashFile(file);
+        return content;
+    }
+
+    /**
+     * Re-parse the notes linking to unresolved nodes that now resolve to a file,
+     * so their edges point to the file's node and the unresolved nodes are dropped.
+     */
+    private resolvePendingLinks(file: TFile): void {
+        const linking = new Set<string>();
+        this._graph.forEachNode((node, attr) => {
+            if (attr.resolved || node === file.path) return;
+
+            // The notes whose frontmatter declares the link: prev links point in, next links point out
+            this._graph.forEachInEdge(node, (edge, edgeAttr, source) => {
+                if (edgeAttr.field === "prev") linking.add(source);
+            });
+            this._graph.forEachOutEdge(node, (edge, edgeAttr, source, target) => {
+                if (edgeAttr.field === "next") linking.add(target);
+            });
+        });
+
+        for (const path of linking) {
+            const source = this.app.vault.getAbstractFileByPath(path);
+            if (!(source instanceof TFile)) continue;
+
+            const frontmatter = this.app.metadataCache.getFileCache(source)?.frontmatter;
+            const fields = [frontmatter?.[this._linkFields.prev], this._linkFields.next ? frontmatter?.[this._linkFields.next] : undefined];
+            if (!fields.some(field => parseLinkField(this.app, field, path).some(link => link.path === file.path))) continue;
+
+            updateNodeEdges(this._graph, source, this.app, this._linkFields);
+        }
+    }
+
+    /**
+     * Build the graph from every file in the vault and record their parse times.
+     */
+    private buildFromScratch(): void {
+        this._graph = buildChainGraph(this.app, this._linkFields, path => this.isTracked(path));
+        this.healer = this.createHealer();
+
+        this.parsedMtimes = new Map();
+        for (const file of this.app.vault.getMarkdownFiles()) {
+            if (this.isTracked(file.path)) {
+                this.parsedMtimes.set(file.path, file.stat.mtime);
+            }
+        }
+        this._isReady = true;
+    }
+
+    /**
+     * A cache is only usable if it was built with the current link fields and untracked folders.
+     */
+    private isCacheCompatible(cache: GraphCacheData): boolean {
+        return cache.linkFields?.prev === this._linkFields.prev
+            && cache.linkFields?.next === this._linkFields.next
+            && (cache.untrackedFolders ?? []).join("\n") === this._untrackedFolders.join("\n");
+    }
+
+    /**
+     * Rewrite a note's prev field and update its graph edges right away.
+     * The change is recorded in the thread history.
+     * 
+     * @param file - The note to update
+     * @param targetPaths - The paths its prev field should point to (empty removes the field)
+     * @param transaction - The operation to record the change in, or null to leave it out of the history
+     * @param subpaths - The heading or block to link to, by target; by default
+     *   links to targets that stay keep the heading or block they pointed to
+     */
+    async setPrevLinks(
+        file: TFile,
+        targetPaths: string[],
+        transaction: ThreadTransaction | null,
+        subpaths = this._graph.get_prev_subpaths(file.path)
+    ): Promise<void> {
+        const before = this.getPrevLinkState(file.path);
+        const linkNames = targetPaths.map(path => getLinkName(this.app, path, file.path) + (subpaths.get(path) ?? ""));
+        await updateFrontmatter(this.app, file, linkNames, this._linkFields.prev);
+
+        this._graph.replace_prev_edges(file.path, targetPaths, subpaths);
+        this.record(transaction, { type: "prev", path: file.path, before, after: this.getPrevLinkState(file.path) });
+        this.trigger("graph-updated", file.path);
+    }
+
+    /**
+     * Rewrite the prev field of several notes as one operation.
+     * If any write fails, the notes written so far are restored to their
+     * previous prev links, so the thread is never left half-reordered, and
+     * the operation leaves nothing in the history.
+     *
+     * @param changes - Note path -> the paths its prev field should point to
+     * @param outer - The operation this rewrite is part of, if any
+     * @returns True if every note was rewritten
+     */
+    async rewritePrevLinks(changes: Map<string, string[]>, outer?: ThreadTransaction): Promise<boolean> {
+        return this.transaction("Rewrite prev links", async transaction => {
+            const recorded = transaction.changes.length;
+            const applied: { file: TFile; previous: string[]; subpaths: Map<string, string> }[] = [];
+
+            try {
+                for (const [path, targets] of changes) {
+                    const file = this.app.vault.getAbstractFileByPath(path);
+                    if (!(file instanceof TFile)) {
+                        throw new Error(`Cannot find file ${path}`);
+                    }
+
+                    const previous = this.getDeclaredPrevLinks(path);
+                    const subpaths = this._graph.get_prev_subpaths(path);
+                    await this.setPrevLinks(file, targets, transaction);
+                    applied.push({ file, previous, subpaths });
+                }
+                return true;
+            } catch (error) {
+                console.error("GraphService: Failed to rewrite prev links, rolling back:", error);
+                transaction.changes.splice(recorded);
+                for (const { file, previous, subpaths } of applied.reverse()) {
+                    await this.setPrevLinks(file, previous, null, subpaths);
+                }
+                return false;
+            }
+        }, outer);
+    }
+
+    /**
+     * Get the prev targets a note declares in its own prev field.
+     * Unlike `getPrevNotes`, this excludes links declared by other notes' next field.
+     */
+    getDeclaredPrevLinks(path: string): string[] {
+        if (!this._graph.hasNode(path)) return [];
+
+        const targets: string[] = [];
+        this._graph.forEachOutEdge(path, (edge, attr, source, target) => {
+            if (attr.field === "prev") targets.push(target);
+        });
+        return [...new Set(targets)];
+    }
+
+    /**
+     * Absorb a note into another one and delete it.
+     * Every note that linked to the absorbed note is re-pointed at the surviving
+     * note first, so the delete that follows needs no healing.
+     * 
+     * @param absorbed - The note to delete
+     * @param survivorPath - The note that takes its place in the chain
+     * @param transaction - The operation to record the changes in
+     */
+    async absorbNote(absorbed: TFile, survivorPath: string, transaction: ThreadTransaction): Promise<void> {
+        await this.healer.repointReferences(absorbed.path, survivorPath, this.prevLinkWriter(transaction));
+        this.trigger("graph-updated", survivorPath);
+
+        await this.trashNote(absorbed, transaction);
+    }
+
     /**
      * Check if a node exists in the graph.
      */
@@ -105,8 +627,9 @@ export class GraphService extends Events {
      * 
      * @param file - The newly created file
      * @param prevPath - The path of the file that this new file links to via "prev"
+     * @param transaction - The operation to record the creation in
      */
-    addFileWithEdge(file: TFile, prevPath: string): void {
+    addFileWithEdge(file: TFile, prevPath: string, transaction: ThreadTransaction): void {
         console.log(`GraphService: addFileWithEdge ${file.path} -> ${prevPath}`);
 
         // Add node if it doesn't exist
@@ -127,9 +650,277 @@ export class GraphService extends Events {
         // Add edge from new file to prev file (direction: newFile -> prevFile)
         this._graph.addDirectedEdge(file.path, prevPath, {
             field: "prev",
-            explicit: true
+            explicit: false
         });
 
+        this.record(transaction, { type: "create", path: file.path, content: "" });
         this.trigger("graph-updated", file.path);
     }
+
+    /**
+     * Rewrite a note's whole content, recording the change in the thread history.
+     * 
+     * @param file - The note to rewrite
+     * @param fn - Builds the new content from the current content
+     * @param transaction - The operation to record the change in
+     */
+    async processNote(file: TFile, fn: (data: string) => string, transaction: ThreadTransaction): Promise<void> {
+        let before = "";
+        let after = "";
+        await this.app.vault.process(file, (data) => {
+            before = data;
+            after = fn(data);
+            return after;
+        });
+        this.recordContentChange(file.path, before, after, transaction);
+    }
+
+    /**
+     * Record a content change written elsewhere (e.g. by an editor's save) in the thread history.
+     * 
+     * @param path - The rewritten note
+     * @param before - The whole file before the change
+     * @param after - The whole file after the change
+     * @param transaction - The operation to record the change in
+     */
+    recordContentChange(path: string, before: string, after: string, transaction: ThreadTransaction): void {
+        if (before !== after) {
+            this.record(transaction, { type: "content", path, before, after });
+        }
+    }
+
+    //======================= Thread history =======================
+
+    /**
+     * Run a thread operation, recording the changes it makes as one
+     * transaction that can be undone as a whole.
+     * The operation passes the transaction on to every write it wants recorded,
+     * so operations running at the same time are recorded separately.
+     * 
+     * @param label - What the operation did, e.g. "Merge Chapter 2 into Chapter 1"
+     * @param run - The operation
+     * @param outer - The operation this one is part of, if any; its changes are then recorded there
+     */
+    async transaction<T>(label: string, run: (transaction: ThreadTransaction) => Promise<T>, outer?: ThreadTransaction): Promise<T> {
+        if (outer) return run(outer);
+
+        const transaction: ThreadTransaction = { label, changes: [] };
+        this.openTransactions.add(transaction);
+        try {
+            return await run(transaction);
+        } finally {
+            this.openTransactions.delete(transaction);
+            this.pushHistory(transaction);
+        }
+    }
+
+    /**
+     * The label of the operation that would be undone, if any.
+     */
+    get undoLabel(): string | null {
+        return this.undoStack[this.undoStack.length - 1]?.label ?? null;
+    }
+
+    /**
+     * The label of the operation that would be redone, if any.
+     */
+    get redoLabel(): string | null {
+        return this.redoStack[this.redoStack.length - 1]?.label ?? null;
+    }
+
+    /**
+     * Undo the last thread operation: restore the prev links and content it
+     * changed, trash the notes it created and recreate the notes it deleted.
+     * Nothing is touched if one of the notes was changed since.
+     */
+    async undo(): Promise<HistoryResult> {
+        return this.replay(this.undoStack, this.redoStack, "undo");
+    }
+
+    /**
+     * Redo the last undone thread operation.
+     * Nothing is touched if one of the notes was changed since the undo.
+     */
+    async redo(): Promise<HistoryResult> {
+        return this.replay(this.redoStack, this.undoStack, "redo");
+    }
+
+    /**
+     * Replay the last transaction of one stack and move it to the other.
+     */
+    private async replay(from: ThreadTransaction[], to: ThreadTransaction[], direction: "undo" | "redo"): Promise<HistoryResult> {
+        const transaction = from[from.length - 1];
+        if (!transaction) return { status: "empty" };
+
+        const changes = direction === "undo" ? [...transaction.changes].reverse() : transaction.changes;
+
+        // Only the first change to each note can be checked against the note as it is now,
+        // later ones build on the changes replayed before them
+        const checked = new Set<string>();
+        for (const change of changes) {
+            if (checked.has(change.path)) continue;
+            checked.add(change.path);
+
+            const reason = await this.checkChange(change, direction);
+            if (reason) return { status: "blocked", label: transaction.label, reason };
+        }
+
+        from.pop();
+        try {
+            for (const change of changes) {
+                await this.applyChange(change, direction);
+            }
+        } catch (error) {
+            console.error(`GraphService: Failed to ${direction} "${transaction.label}":`, error);
+            return { status: "failed", label: transaction.label };
+        }
+
+        to.push(transaction);
+        return { status: "done", label: transaction.label };
+    }
+
+    /**
+     * Check that a note is still as the change left it (for undo) or found it (for redo).
+     * 
+     * @returns Why the change can't be replayed, or null if it can
+     */
+    private async checkChange(change: ThreadChange, direction: "undo" | "redo"): Promise<string | null> {
+        const file = this.app.vault.getAbstractFileByPath(change.path);
+        const name = getNoteName(change.path);
+
+        switch (change.type) {
+            case "prev": {
+                if (!(file instanceof TFile)) return `${name} no longer exists`;
+                const expected = direction === "undo" ? change.after : change.before;
+                return sameLinks(this.getPrevLinkState(change.path), expected)
+                    ? null
+                    : `the ${this._linkFields.prev} links of ${name} were changed since`;
+            }
+            case "content": {
+                if (!(file instanceof TFile)) return `${name} no longer exists`;
+                const expected = direction === "undo" ? change.after : change.before;
+                return await this.app.vault.read(file) === expected ? null : `${name} was edited since`;
+            }
+            default: {
+                // Undoing a creation or redoing a deletion trashes the note, the other way round recreates it
+                const trashes = (change.type === "create") === (direction === "undo");
+                if (trashes) return file instanceof TFile ? null : `${name} no longer exists`;
+                return file ? `${change.path} already exists` : null;
+            }
+        }
+    }
+
+    /**
+     * Apply one recorded change backwards (undo) or forwards (redo), without recording it.
+     */
+    private async applyChange(change: ThreadChange, direction: "undo" | "redo"): Promise<void> {
+        const file = this.app.vault.getAbstractFileByPath(change.path);
+
+        switch (change.type) {
+            case "prev": {
+                if (!(file instanceof TFile)) return;
+                const links = direction === "undo" ? change.before : change.after;
+                const subpaths = new Map(links.filter(link => link.subpath).map(link => [link.path, link.subpath] as [string, string]));
+                await this.setPrevLinks(file, links.map(link => link.path), null, subpaths);
+                break;
+            }
+            case "content": {
+                if (!(file instanceof TFile)) return;
+                const content = direction === "undo" ? change.before : change.after;
+                await this.app.vault.process(file, () => content);
+                break;
+            }
+            default: {
+                const trashes = (change.type === "create") === (direction === "undo");
+                if (trashes) {
+                    if (!(file instanceof TFile)) return;
+                    // Keep what the note holds now, so replaying the other way brings it back as it was
+                    change.content = await this.trashNote(file, null);
+                } else {
+                    await this.recreateFile(change.path, change.content);
+                }
+            }
+        }
+    }
+
+    /**
+     * Create a file, and its folder if the folder is gone too.
+     */
+    private async recreateFile(path: string, content: string): Promise<void> {
+        const parent = path.includes("/") ? path.slice(0, path.lastIndexOf("/")) : "";
+        if (parent && !this.app.vault.getAbstractFileByPath(parent)) {
+            await this.app.vault.createFolder(parent);
+        }
+        await this.app.vault.create(path, content);
+    }
+
+    /**
+     * Record a change in an operation's transaction.
+     * 
+     * @param transaction - The operation, or null for writes left out of the history
+     */
+    private record(transaction: ThreadTransaction | null, change: ThreadChange): void {
+        if (!transaction) return;
+        if (change.type === "prev" && sameLinks(change.before, change.after)) return;
+
+        transaction.changes.push(change);
+    }
+
+    /**
+     * Add a finished transaction to the history. A new operation can't be redone over.
+     */
+    private pushHistory(transaction: ThreadTransaction): void {
+        if (transaction.changes.length === 0) return;
+
+        this.undoStack.push(transaction);
+        if (this.undoStack.length > MAX_HISTORY) {
+            this.undoStack.shift();
+        }
+        this.redoStack = [];
+    }
+
+    /**
+     * Follow a rename in the recorded changes, so operations on a renamed note can still be undone.
+     */
+    private renameInHistory(oldPath: string, newPath: string): void {
+        const transactions = [...this.undoStack, ...this.redoStack, ...this.openTransactions];
+
+        for (const change of transactions.flatMap(transaction => transaction.changes)) {
+            if (change.path === oldPath) change.path = newPath;
+            if (change.type !== "prev") continue;
+            for (const link of [...change.before, ...change.after]) {
+                if (link.path === oldPath) link.path = newPath;
+            }
+        }
+    }
+
+    /**
+     * Get the prev links a note declares, with the heading or block each one points to.
+     */
+    private getPrevLinkState(path: string): ResolvedLink[] {
+        const subpaths = this._graph.get_prev_subpaths(path);
+        return this.getDeclaredPrevLinks(path).map(target => ({ path: target, subpath: subpaths.get(target) ?? "" }));
+    }
+
+    /**
+     * Create the healer for the current graph.
+     */
+    private createHealer(): ChainHealer {
+        return new ChainHealer(this._graph, this.app);
+    }
+
+    /**
+     * Let the healer write through `setPrevLinks`, so its rewrites are recorded in an operation.
+     */
+    private prevLinkWriter(transaction: ThreadTransaction): PrevLinkWriter {
+        return (file, targetPaths) => this.setPrevLinks(file, targetPaths, transaction);
+    }
 }
+
+/**
+ * Whether two lists of prev links point to the same notes and sections, in any order.
+ */
+const sameLinks = (a: ResolvedLink[], b: ResolvedLink[]): boolean => {
+    const keys = (links: ResolvedLink[]) => links.map(link => link.path + link.subpath).sort().join("\n");
+    return keys(a) === keys(b);
+};
@@ -1,12 +1,18 @@
-import { App, TFile, WorkspaceLeaf, MarkdownView } from "obsidian";
-import { GraphService } from "./GraphService";
+import { App, CachedMetadata, TFile, WorkspaceLeaf, MarkdownView } from "obsidian";
+import { GraphService, ThreadTransaction } from "./GraphService";
+import { NoteTemplateService } from "./NoteTemplateService";
+import { getFullChainBackward } from "../graph/ChainQueries";
+import { getFirstLine } from "../view/ContentExtractor";
+import { renderFilenameTemplate, sanitizeFilename, TemplateVariables } from "../utility/templateVariables";
+import { getAvailablePath, getLinkName, getNoteName } from "../utility/utils";
 
 /**
  * Service to create new chained notes.
  * 
  * When invoked (e.g. via button click), this service:
- * 1. Creates a new note with a timestamp-based name
- * 2. Sets the new note's `prev` frontmatter to point to the current note
+ * 1. Creates a new note named after the filename template
+ * 2. Sets the new note's `prev` frontmatter to point to the current note,
+ *    merged with its template (see NoteTemplateService)
  * 3. Opens the new note in the active editor
  * 4. Updates the graph and triggers chain view re-render
  */
@@ -14,10 +20,15 @@ export class NoteCreationService {
     private onNoteCreated: ((file: TFile) => Promise<void>) | null = null;
     private isCreating: boolean = false; // Lock to prevent double triggers
     private targetFolder: string = ""; // Folder path for new notes
+    private filenameTemplate = "Untitled-{{timestamp}}"; // Name for new notes, see renderFilenameTemplate
+
+    /** Notes created this session that still carry their generated name */
+    private pendingRenames: Set<string> = new Set();
 
     constructor(
         private app: App,
-        private graphService: GraphService
+        private graphService: GraphService,
+        private noteTemplateService: NoteTemplateService
     ) { }
 
     /**
@@ -28,6 +39,13 @@ export class NoteCreationService {
         this.targetFolder = folder;
     }
 
+    /**
+     * Set the template new notes are named after (see `renderFilenameTemplate`).
+     */
+    setFilenameTemplate(template: string): void {
+        this.filenameTemplate = template;
+    }
+
     /**
      * Set a callback to be invoked after a note is created and opened.
      * This allows the plugin to re-render the chain view.
@@ -51,49 +69,14 @@ export class NoteCreationService {
         this.isCreating = true;
 
         try {
-            const currentFile = this.app.vault.getAbstractFileByPath(currentNotePath);
-            if (!(currentFile instanceof TFile)) {
-                console.error(`NoteCreationService: Could not find file ${currentNotePath}`);
+            const newFile = await this.graphService.transaction(
+                `Continue thread from ${getNoteName(currentNotePath)}`,
+                transaction => this.createNoteAfter(currentNotePath, transaction)
+            );
+            if (!newFile) {
                 return null;
             }
 
-            // Generate a unique filename using timestamp
-            const timestamp = Date.now();
-            const newFileName = `Untitled-${timestamp}.md`;
-
-            // Determine folder: use configured folder or fall back to current note's folder
-            let folder = this.targetFolder;
-            if (!folder) {
-                // Use the same folder as the current note
-                folder = currentFile.parent?.path || "";
-                if (folder === "/") {
-                    folder = "";
-                }
-            }
-            const newFilePath = folder ? `${folder}/${newFileName}` : newFileName;
-
-            // Ensure the target folder exists
-            if (folder) {
-                const folderExists = this.app.vault.getAbstractFileByPath(folder);
-                if (!folderExists) {
-                    console.log(`NoteCreationService: Creating folder ${folder}`);
-                    await this.app.vault.createFolder(folder);
-                }
-            }
-
-            // Create frontmatter with prev pointing to current note
-            const currentNoteName = currentFile.basename;
-            const frontmatter = `---\nprev: "[[${currentNoteName}]]"\n---\n\n`;
-
-            console.log(`NoteCreationService: Creating new note ${newFilePath} with prev: ${currentNoteName}`);
-
-            // Create the new file
-            const newFile = await this.app.vault.create(newFilePath, frontmatter);
-
-            // Add node and edge directly since we know the relationship
-            // This bypasses the metadata cache timing issue
-            this.graphService.addFileWithEdge(newFile, currentFile.path);
-
             // Open the new note in the active leaf
             const leaf = this.app.workspace.getLeaf(false);
             if (leaf) {
@@ -118,4 +101,112 @@ export class NoteCreationService {
             }, 300);
         }
     }
+
+    /**
+     * Create a new note chained after the given note, without opening it.
+     * Unlike `createChainedNote`, this has no double-trigger lock, so it can be
+     * used to create several notes in a row (e.g. when splitting a note).
+     * 
+     * @param prevPath - The path of the note that will be the new note's "prev"
+     * @param transaction - The thread operation to record the creation in
+     * @param body - The markdown content to put below the frontmatter
+     * @returns The newly created file, or null if the prev note doesn't exist
+     */
+    async createNoteAfter(prevPath: string, transaction: ThreadTransaction, body = ""): Promise<TFile | null> {
+        const currentFile = this.app.vault.getAbstractFileByPath(prevPath);
+        if (!(currentFile instanceof TFile)) {
+            console.error(`NoteCreationService: Could not find file ${prevPath}`);
+            return null;
+        }
+
+        // Determine folder: use configured folder or fall back to current note's folder
+        let folder = this.targetFolder;
+        if (!folder) {
+            // Use the same folder as the current note
+            folder = currentFile.parent?.path || "";
+            if (folder === "/") {
+                folder = "";
+            }
+        }
+
+        // Generate a unique filename from the template
+        // (numbered if another note already has that name)
+        const thread = getFullChainBackward(this.graphService.graph, currentFile.path);
+        const variables: TemplateVariables = {
+            root: getNoteName(thread[0]),
+            parent: currentFile.basename,
+            index: thread.length + 1,
+            firstLine: getFirstLine(body),
+        };
+        const newFilePath = getAvailablePath(this.app, folder, renderFilenameTemplate(this.filenameTemplate, variables));
+        variables.title = getNoteName(newFilePath);
+
+        // Ensure the target folder exists
+        if (folder) {
+            const folderExists = this.app.vault.getAbstractFileByPath(folder);
+            if (!folderExists) {
+                console.log(`NoteCreationService: Creating folder ${folder}`);
+                await this.app.vault.createFolder(folder);
+            }
+        }
+
+        // Frontmatter with prev pointing to current note, merged with the note template
+        const prevField = this.graphService.linkFields.prev;
+        const prevLink = getLinkName(this.app, currentFile.path, newFilePath);
+        const content = await this.noteTemplateService.buildContent(
+            { prevPath: currentFile.path, prevLink, rootPath: thread[0], folder, variables },
+            prevField,
+            body
+        );
+
+        console.log(`NoteCreationService: Creating new note ${newFilePath} with ${prevField}: ${prevLink}`);
+
+        // Create the new file
+        const newFile = await this.app.vault.create(newFilePath, content);
+
+        // Add node and edge directly since we know the relationship
+        // This bypasses the metadata cache timing issue
+        this.graphService.addFileWithEdge(newFile, currentFile.path, transaction);
+
+        this.pendingRenames.add(newFile.path);
+        return newFile;
+    }
+
+    /**
+     * Rename a note created this session after its first heading, once the
+     * heading is followed by more content (so it isn't renamed mid-typing).
+     * Each note is renamed at most once; a number is appended if the name is taken.
+     * 
+     * @param file - The note whose metadata changed
+     * @param cache - The note's new metadata
+     * @returns True if the note was renamed
+     */
+    async renameFromHeading(file: TFile, cache: CachedMetadata): Promise<boolean> {
+        if (!this.pendingRenames.has(file.path)) return false;
+
+        const heading = cache.headings?.[0];
+        if (!heading) return false;
+
+        const hasContentAfterHeading = (cache.sections ?? [])
+            .some(section => section.position.start.line > heading.position.end.line);
+        if (!hasContentAfterHeading) return false;
+
+        this.pendingRenames.delete(file.path);
+
+        const name = sanitizeFilename(heading.heading);
+        if (!name || name === file.basename) return false;
+
+        const folder = file.parent?.path === "/" ? "" : file.parent?.path ?? "";
+        const newPath = getAvailablePath(this.app, folder, name, file.extension);
+
+        await this.app.fileManager.renameFile(file, newPath);
+        return true;
+    }
+
+    /**
+     * Stop tracking a note once it was renamed, so a name the user chose is kept.
+     */
+    handleRename(oldPath: string): void {
+        this.pendingRenames.delete(oldPath);
+    }
 }
@@ -0,0 +1,160 @@
+import { App, parseYaml, stringifyYaml } from "obsidian";
+import { NoteTemplateRule } from "../settings/ThreadsSettings";
+import { extractNoteContent } from "../view/ContentExtractor";
+import { substituteVariables, TemplateVariables } from "../utility/templateVariables";
+
+/**
+ * Which templates to use and which frontmatter keys to inherit.
+ */
+export type NoteTemplateOptions = {
+    rules: NoteTemplateRule[];
+    defaultTemplate: string;
+    inheritedKeys: string[];
+};
+
+/**
+ * Where a new note is created and what its template variables are.
+ */
+export type NewNoteContext = {
+    /** Path of the new note's prev note */
+    prevPath: string;
+    /** Link text for the prev note, path-qualified if its name is ambiguous */
+    prevLink: string;
+    /** Path of the thread's first note */
+    rootPath: string;
+    /** Folder the new note is created in ("" for the vault root) */
+    folder: string;
+    variables: TemplateVariables;
+};
+
+type Frontmatter = Record<string, unknown>;
+
+/**
+ * Service to build the content of new thread notes.
+ *
+ * A new note gets:
+ * 1. The frontmatter and body of its template note, with variables substituted
+ * 2. The inherited frontmatter keys of its prev note (lists are combined)
+ * 3. The prev field pointing to its prev note
+ */
+export class NoteTemplateService {
+    private options: NoteTemplateOptions = { rules: [], defaultTemplate: "", inheritedKeys: [] };
+
+    constructor(private app: App) { }
+
+    /**
+     * Set the template rules and inherited keys.
+     */
+    setOptions(options: NoteTemplateOptions): void {
+        this.options = options;
+    }
+
+    /**
+     * Get the template for a new note: the thread's template if there is one,
+     * otherwise the template of the closest folder, otherwise the default.
+     *
+     * @param rootPath - Path of the thread's first note
+     * @param folder - Folder the new note is created in
+     * @returns The template path, or null if no template applies
+     */
+    getTemplatePath(rootPath: string, folder: string): string | null {
+        const { rules, defaultTemplate } = this.options;
+
+        const rootRule = rules.find(rule => rule.scope === "root" && rule.template && rule.match === rootPath);
+        if (rootRule) return rootRule.template;
+
+        const folderRule = rules
+            .filter(rule => rule.scope === "folder" && rule.template && isInFolder(folder, rule.match))
+            .sort((a, b) => b.match.length - a.match.length)[0];
+        if (folderRule) return folderRule.template;
+
+        return defaultTemplate || null;
+    }
+
+    /**
+     * Build the full content of a new note.
+     *
+     * @param context - Where the note is created and its template variables
+     * @param prevField - The frontmatter key linking the note to its prev note
+     * @param body - Content to put below the template's body
+     * @returns The file content, with frontmatter
+     */
+    async buildContent(context: NewNoteContext, prevField: string, body: string): Promise<string> {
+        const templatePath = this.getTemplatePath(context.rootPath, context.folder);
+        const template = templatePath
+            ? await extractNoteContent(this.app, templatePath)
+            : { content: "", yaml: "" };
+
+        const frontmatter: Frontmatter = {
+            [prevField]: `[[${context.prevLink}]]`,
+            ...substituteInValues(this.parseFrontmatter(template.yaml, templatePath), context.variables),
+        };
+
+        const { yaml: prevYaml } = await extractNoteContent(this.app, context.prevPath);
+        const prevFrontmatter = this.parseFrontmatter(prevYaml, context.prevPath);
+        for (const key of this.options.inheritedKeys) {
+            if (key === prevField || prevFrontmatter[key] === undefined) continue;
+            frontmatter[key] = mergeValues(frontmatter[key], prevFrontmatter[key]);
+        }
+
+        // The template must not decide where the note is chained
+        frontmatter[prevField] = `[[${context.prevLink}]]`;
+
+        const content = [substituteVariables(template.content, context.variables), body]
+            .filter(part => part !== "")
+            .join("\n\n");
+
+        return `---\n${stringifyYaml(frontmatter).trimEnd()}\n---\n\n${content}`;
+    }
+
+    /**
+     * Parse a YAML frontmatter block, treating invalid YAML as empty.
+     */
+    private parseFrontmatter(yaml: string, sourcePath: string | null): Frontmatter {
+        if (!yaml.trim()) return {};
+        try {
+            const parsed = parseYaml(yaml);
+            return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : {};
+        } catch (error) {
+            console.error(`NoteTemplateService: Invalid frontmatter in ${sourcePath}:`, error);
+            return {};
+        }
+    }
+}
+
+/**
+ * Whether a folder is the given folder or inside it ("" matches every folder).
+ */
+const isInFolder = (folder: string, parent: string): boolean => {
+    const normalized = parent.replace(/^\/+|\/+$/g, "");
+    return normalized === "" || folder === normalized || folder.startsWith(`${normalized}/`);
+};
+
+/**
+ * Substitute template variables in every string of a frontmatter object.
+ */
+const substituteInValues = (frontmatter: Frontmatter, variables: TemplateVariables): Frontmatter => {
+    const substitute = (value: unknown): unknown => {
+        if (typeof value === "string") return substituteVariables(value, variables);
+        if (Array.isArray(value)) return value.map(substitute);
+        if (value && typeof value === "object") {
+            return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, substitute(item)]));
+        }
+        return value;
+    };
+    return substitute(frontmatter) as Frontmatter;
+};
+
+/**
+ * Combine a template value with an inherited value.
+ * Lists are joined without duplicates; otherwise the inherited value wins.
+ */
+const mergeValues = (templateValue: unknown, inheritedValue: unknown): unknown => {
+    if (templateValue === undefined) return inheritedValue;
+
+    const toList = (value: unknown) => Array.isArray(value) ? value : [value];
+    if (Array.isArray(templateValue) || Array.isArray(inheritedValue)) {
+        return [...new Set([...toList(templateValue), ...toList(inheritedValue)])];
+    }
+    return inheritedValue;
+};
@@ -0,0 +1,90 @@
+import { EditorView, ViewUpdate } from "@codemirror/view";
+import { QuickCreateTrigger } from "../settings/ThreadsSettings";
+
+/**
+ * The trigger text found at the end of a document, as a range to delete.
+ */
+export type TriggerRange = { from: number; to: number };
+
+/**
+ * Service to detect the quick-create trigger at the end of an editor (desktop only).
+ *
+ * Only edits that insert a newline at the very end of the document are
+ * checked, and only the last few characters are read, so typing in large
+ * notes doesn't scan the whole document on every keystroke.
+ */
+export class QuickCreateDetector {
+    private trigger: QuickCreateTrigger = "blank-lines";
+    private blankLines = 3;
+    private sentinel = "---next";
+
+    /**
+     * Set the trigger to detect.
+     *
+     * @param trigger - The kind of trigger, or "off"
+     * @param blankLines - Number of consecutive newlines for the blank-lines trigger
+     * @param sentinel - Text of the line for the sentinel trigger
+     */
+    setTrigger(trigger: QuickCreateTrigger, blankLines: number, sentinel: string): void {
+        this.trigger = trigger;
+        this.blankLines = Math.max(2, Math.floor(blankLines));
+        this.sentinel = sentinel.trim();
+    }
+
+    /**
+     * Check whether an editor update completed the trigger.
+     *
+     * @param update - The CodeMirror update
+     * @returns The trigger text to remove, or null if the trigger was not completed
+     */
+    detect(update: ViewUpdate): TriggerRange | null {
+        if (this.trigger === "off" || !update.docChanged) return null;
+
+        const doc = update.state.doc;
+
+        // Only a newline typed at the end of the document can complete a trigger
+        let insertedNewlineAtEnd = false;
+        update.changes.iterChanges((fromA, toA, fromB, toB, inserted) => {
+            if (toB === doc.length && inserted.length > 0 && inserted.sliceString(0).includes("\n")) {
+                insertedNewlineAtEnd = true;
+            }
+        });
+        if (!insertedNewlineAtEnd) return null;
+
+        if (this.trigger === "blank-lines") {
+            const tail = doc.sliceString(Math.max(0, doc.length - this.blankLines), doc.length);
+            if (tail.length < this.blankLines || /[^\n]/.test(tail)) return null;
+
+            // Keep one trailing newline
+            return { from: doc.length - this.blankLines + 1, to: doc.length };
+        }
+
+        if (!this.sentinel) return null;
+
+        // The sentinel line, then the newline that completed it
+        const tail = doc.sliceString(Math.max(0, doc.length - this.sentinel.length - 2), doc.length);
+        const match = tail.match(new RegExp(`(^|\\n)${escapeRegExp(this.sentinel)}\\n$`));
+        if (!match) return null;
+
+        return { from: doc.length - match[0].length + match[1].length, to: doc.length };
+    }
+
+    /**
+     * Remove the trigger text from an editor.
+     * Deferred until the current update has finished, since CodeMirror
+     * doesn't allow dispatching a transaction from within an update.
+     *
+     * @param view - The editor to remove the trigger from
+     * @param range - The trigger text returned by `detect`
+     */
+    removeTrigger(view: EditorView, range: TriggerRange): Promise<void> {
+        return new Promise(resolve => {
+            setTimeout(() => {
+                view.dispatch({ changes: { from: range.from, to: Math.min(range.to, view.state.doc.length) } });
+                resolve();
+            });
+        });
+    }
+}
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
@@ -0,0 +1,294 @@
+import { App, Notice, TFile } from "obsidian";
+import { GraphService, ThreadTransaction } from "./GraphService";
+import { NoteCreationService } from "./NoteCreationService";
+import { getNextNotes } from "../graph/ChainQueries";
+import { extractNoteContent, reconstructFileContent, splitFrontmatter } from "../view/ContentExtractor";
+import { getNoteName } from "../utility/utils";
+
+/**
+ * Where to cut a note when splitting it into a thread.
+ * - headings: before every heading of the note's top heading level
+ * - rules: at every horizontal rule (the rule itself is dropped)
+ * - marker: at every line that consists of the split marker
+ */
+export type SplitMode = "headings" | "rules" | "marker";
+
+/**
+ * Service for structural edits of threads: operations that create, remove or
+ * re-point several notes at once and keep the chain consistent.
+ */
+export class ThreadEditService {
+    constructor(
+        private app: App,
+        private graphService: GraphService,
+        private noteCreationService: NoteCreationService
+    ) { }
+
+    /**
+     * Split a note into a thread.
+     *
+     * The note keeps the first segment; every further segment becomes a new
+     * note chained after the previous one. Notes that had the original note as
+     * their prev are re-pointed at the last new segment, so they stay at the
+     * end of the thread.
+     *
+     * @param file - The note to split
+     * @param mode - Where to cut the note
+     * @param marker - The marker line used in "marker" mode
+     * @returns The newly created notes, in thread order
+     */
+    async splitNote(file: TFile, mode: SplitMode, marker: string): Promise<TFile[]> {
+        const { content } = await extractNoteContent(this.app, file.path);
+        if (splitContent(content, mode, marker).length < 2) {
+            new Notice("Nothing to split in this note");
+            return [];
+        }
+
+        // Remember the successors before new notes are chained to this one
+        const successors = getNextNotes(this.graphService.graph, file.path);
+
+        const created: TFile[] = [];
+        await this.graphService.transaction(`Split ${file.basename}`, async transaction => {
+            // The original note keeps the first segment. The note is split as it is
+            // when written, so edits saved since it was read above are kept
+            let segments: string[] = [];
+            await this.graphService.processNote(file, (data) => {
+                const { content, yaml } = splitFrontmatter(data);
+                segments = splitContent(content, mode, marker);
+                return reconstructFileContent(segments[0], yaml);
+            }, transaction);
+
+            let prevPath = file.path;
+            for (const segment of segments.slice(1)) {
+                const newFile = await this.noteCreationService.createNoteAfter(prevPath, transaction, segment);
+                if (!newFile) break;
+                created.push(newFile);
+                prevPath = newFile.path;
+            }
+
+            // Move the old successors to the end of the new segments
+            if (created.length > 0) {
+                await this.repointSuccessors(successors, file.path, prevPath, transaction);
+            }
+        });
+
+        new Notice(`Split into ${created.length + 1} notes`);
+        return created;
+    }
+
+    /**
+     * Merge a note with its next note.
+     *
+     * The next note's content is appended to the note, then the next note is
+     * deleted. Its successors and reply branches are re-pointed at the merged
+     * note before deletion (see `ChainHealer.repointReferences`).
+     *
+     * @param file - The note that absorbs its next note
+     * @param nextPath - The next note to absorb
+     * @returns True if the notes were merged
+     */
+    async mergeWithNext(file: TFile, nextPath: string): Promise<boolean> {
+        const nextFile = this.app.vault.getAbstractFileByPath(nextPath);
+        if (!(nextFile instanceof TFile)) {
+            new Notice("There is no next note to merge with");
+            return false;
+        }
+
+        await this.graphService.transaction(`Merge ${nextFile.basename} into ${file.basename}`, async transaction => {
+            // Append the next note's body to this note as it is when written, keeping its frontmatter
+            const { content: nextContent } = await extractNoteContent(this.app, nextPath, true);
+            await this.graphService.processNote(file, (data) => {
+                const { content, yaml } = splitFrontmatter(data);
+                const merged = [content, nextContent].filter(part => part !== "").join("\n\n");
+                return reconstructFileContent(merged, yaml);
+            }, transaction);
+
+            await this.graphService.absorbNote(nextFile, file.path, transaction);
+        });
+
+        new Notice(`Merged ${nextFile.basename} into ${file.basename}`);
+        return true;
+    }
+
+    /**
+     * Insert a new note right after a note.
+     *
+     * The new note's prev is the note, and the note's main-line successor is
+     * re-pointed at the new note, so the thread stays linear instead of
+     * forking into a reply branch.
+     *
+     * Example:
+     *   Before: A -> B
+     *   Insert after A
+     *   After:  A -> New -> B
+     *
+     * @param path - The note to insert after
+     * @param successorPath - The note that currently follows it on the main line, if any
+     * @param body - The new note's content
+     * @param outer - The thread operation the insertion is part of, if any
+     * @returns The new note, or null if it couldn't be created
+     */
+    async insertNoteAfter(path: string, successorPath: string | null, body = "", outer?: ThreadTransaction): Promise<TFile | null> {
+        return this.graphService.transaction(`Insert note after ${getNoteName(path)}`, async transaction => {
+            const newFile = await this.noteCreationService.createNoteAfter(path, transaction, body);
+            if (!newFile) return null;
+
+            if (successorPath) {
+                await this.repointSuccessors([successorPath], path, newFile.path, transaction);
+            }
+            return newFile;
+        }, outer);
+    }
+
+    /**
+     * Move a note to another position on the main line of its thread.
+     *
+     * Rewrites the prev field of the moved note, its old successor (which
+     * takes over the moved note's prev) and its new successor (which now
+     * follows the moved note) in one operation. Reply branches stay attached
+     * to the note they reply to.
+     *
+     * Example:
+     *   Before: A -> B -> C -> D
+     *   Move B after C
+     *   After:  A -> C -> B -> D
+     *
+     * @param mainLine - The main line of the thread, first note first
+     * @param path - The note to move
+     * @param afterPath - The note to move it after, or null to make it the first note
+     * @returns True if the thread was reordered
+     */
+    async moveNote(mainLine: string[], path: string, afterPath: string | null): Promise<boolean> {
+        const index = mainLine.indexOf(path);
+        if (index === -1 || (afterPath !== null && !mainLine.includes(afterPath))) return false;
+
+        const oldPrev = mainLine[index - 1] ?? null;
+        const oldNext = mainLine[index + 1] ?? null;
+        if (afterPath === path || afterPath === oldPrev) return false;
+
+        const newNext = afterPath === null ? mainLine[0] : mainLine[mainLine.indexOf(afterPath) + 1] ?? null;
+
+        const changes = new Map<string, string[]>();
+        const plan = (notePath: string, from: string | null, to: string | null) => {
+            const declared = this.graphService.getDeclaredPrevLinks(notePath);
+            const updated = replaceTarget(declared, from, to);
+            if (updated.join("\n") !== declared.join("\n")) {
+                changes.set(notePath, updated);
+            }
+        };
+
+        if (oldNext) plan(oldNext, path, oldPrev);
+        plan(path, oldPrev, afterPath);
+        if (newNext) plan(newNext, afterPath, path);
+
+        const moved = await this.graphService.transaction(`Move ${getNoteName(path)}`, transaction => this.graphService.rewritePrevLinks(changes, transaction));
+        if (!moved) {
+            new Notice("Failed to move note, the thread was left unchanged");
+        }
+        return moved;
+    }
+
+    /**
+     * Rewrite the prev field of each successor, replacing one target with another.
+     *
+     * @param successors - The notes to update
+     * @param oldPrev - The prev target to replace
+     * @param newPrev - The prev target to use instead
+     * @param transaction - The thread operation to record the rewrites in
+     */
+    private async repointSuccessors(successors: string[], oldPrev: string, newPrev: string, transaction: ThreadTransaction): Promise<void> {
+        for (const path of successors) {
+            const successor = this.app.vault.getAbstractFileByPath(path);
+            if (!(successor instanceof TFile)) continue;
+
+            const declared = this.graphService.getDeclaredPrevLinks(path);
+            if (!declared.includes(oldPrev)) continue;
+
+            const updated = declared.map(target => target === oldPrev ? newPrev : target);
+            await this.graphService.setPrevLinks(successor, updated, transaction);
+        }
+    }
+}
+
+/**
+ * Replace one prev target with another, keeping the position of the replaced target.
+ * A null `from` only adds `to`; a null `to` only removes `from`.
+ */
+const replaceTarget = (targets: string[], from: string | null, to: string | null): string[] => {
+    const replaced = from !== null && targets.includes(from)
+        ? targets.flatMap(target => target === from ? (to === null ? [] : [to]) : [target])
+        : to === null ? targets : [...targets, to];
+    return [...new Set(replaced)];
+};
+
+/**
+ * Split markdown content into segments.
+ * Fenced code blocks are never split. Empty segments are dropped.
+ *
+ * @param content - The markdown content (without frontmatter)
+ * @param mode - Where to cut the content
+ * @param marker - The marker line used in "marker" mode
+ * @returns The trimmed segments, in order
+ */
+export const splitContent = (content: string, mode: SplitMode, marker: string): string[] => {
+    const lines = content.split("\n");
+    const inFence = getFencedLines(lines);
+
+    // For headings, only cut at the top level present so subsections stay together
+    let headingLevel = 0;
+    if (mode === "headings") {
+        for (let i = 0; i < lines.length; i++) {
+            const match = !inFence[i] && lines[i].match(/^(#{1,6})\s/);
+            if (match && (headingLevel === 0 || match[1].length < headingLevel)) {
+                headingLevel = match[1].length;
+            }
+        }
+    }
+
+    const segments: string[][] = [[]];
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+
+        if (!inFence[i]) {
+            if (mode === "headings" && headingLevel > 0 && new RegExp(`^#{${headingLevel}}\\s`).test(line)) {
+                segments.push([line]); // The heading starts the new segment
+                continue;
+            }
+            if (mode === "rules" && /^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+                segments.push([]); // The rule itself is dropped
+                continue;
+            }
+            if (mode === "marker" && marker && line.trim() === marker.trim()) {
+                segments.push([]); // The marker itself is dropped
+                continue;
+            }
+        }
+
+        segments[segments.length - 1].push(line);
+    }
+
+    return segments
+        .map(segment => segment.join("\n").trim())
+        .filter(segment => segment !== "");
+};
+
+/**
+ * Flag every line that is inside (or delimits) a fenced code block.
+ */
+const getFencedLines = (lines: string[]): boolean[] => {
+    let fence: string | null = null;
+    return lines.map(line => {
+        const match = line.match(/^\s*(`{3,}|~{3,})/);
+        if (match) {
+            if (fence === null) {
+                fence = match[1];
+                return true;
+            }
+            if (match[1].startsWith(fence)) {
+                fence = null;
+                return true;
+            }
+        }
+        return fence !== null;
+    });
+};
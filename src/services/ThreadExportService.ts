@@ -0,0 +1,173 @@
+import { App, Notice, resolveSubpath, TFile } from "obsidian";
+import { GraphService } from "./GraphService";
+import { getCompleteChain } from "../graph/ChainQueries";
+import { extractNoteContent } from "../view/ContentExtractor";
+import { ExportSeparator } from "../settings/ThreadsSettings";
+import { getAvailablePath, getNoteName } from "../utility/utils";
+
+/**
+ * Options controlling how a thread is merged into one document.
+ */
+export type ExportOptions = {
+    separator: ExportSeparator;
+    resolveEmbeds: boolean;
+    rewriteLinks: boolean;
+};
+
+/** Matches wikilinks and embeds: ![[path#subpath|alias]] */
+const WIKILINK_REGEX = /(!?)\[\[([^\]|#^]*)([#^][^\]|]*)?(?:\|([^\]]*))?\]\]/g;
+
+/**
+ * Service to export a whole thread as a single markdown document.
+ *
+ * The thread is the complete linear chain of the given note. Each note's
+ * body (without frontmatter) is concatenated in order, separated according
+ * to the export options. The result can be written to a new note or copied
+ * to the clipboard.
+ */
+export class ThreadExportService {
+    constructor(
+        private app: App,
+        private graphService: GraphService
+    ) { }
+
+    /**
+     * Build the merged markdown document for the thread containing a note.
+     *
+     * @param notePath - Any note of the thread
+     * @param options - How to separate notes and handle links
+     * @returns The merged document, without frontmatter
+     */
+    async buildDocument(notePath: string, options: ExportOptions): Promise<string> {
+        const chain = getCompleteChain(this.graphService.graph, notePath)
+            .filter(path => this.app.vault.getAbstractFileByPath(path) instanceof TFile);
+        const threadPaths = new Set(chain);
+
+        const parts: string[] = [];
+        for (const path of chain) {
+            let { content } = await extractNoteContent(this.app, path);
+
+            if (options.resolveEmbeds) {
+                content = await this.resolveEmbeds(content, path);
+            }
+            if (options.rewriteLinks) {
+                content = this.rewriteThreadLinks(content, path, threadPaths, options.separator);
+            }
+
+            parts.push(options.separator === "heading" ? `## ${getNoteName(path)}\n\n${content}` : content);
+        }
+
+        const separator = options.separator === "rule" ? "\n\n---\n\n" : "\n\n";
+        return parts.join(separator) + "\n";
+    }
+
+    /**
+     * Export the thread into a new note next to the thread's first note and open it.
+     *
+     * @param notePath - Any note of the thread
+     * @param options - How to separate notes and handle links
+     * @returns The created note, or null if the export failed
+     */
+    async exportToNote(notePath: string, options: ExportOptions): Promise<TFile | null> {
+        try {
+            const document = await this.buildDocument(notePath, options);
+
+            const rootPath = getCompleteChain(this.graphService.graph, notePath)[0];
+            const root = this.app.vault.getAbstractFileByPath(rootPath);
+            const folder = root instanceof TFile ? root.parent?.path ?? "" : "";
+            const path = getAvailablePath(this.app, folder === "/" ? "" : folder, `${getNoteName(rootPath)} (thread)`);
+
+            const file = await this.app.vault.create(path, document);
+            await this.app.workspace.getLeaf(true).openFile(file);
+            return file;
+        } catch (error) {
+            console.error(`ThreadExportService: Failed to export thread:`, error);
+            new Notice("Failed to export thread");
+            return null;
+        }
+    }
+
+    /**
+     * Copy the merged thread to the clipboard.
+     *
+     * @param notePath - Any note of the thread
+     * @param options - How to separate notes and handle links
+     */
+    async copyToClipboard(notePath: string, options: ExportOptions): Promise<void> {
+        try {
+            const document = await this.buildDocument(notePath, options);
+            // Rejects when the window isn't focused or clipboard access is denied
+            await navigator.clipboard.writeText(document);
+            new Notice("Thread copied to clipboard");
+        } catch (error) {
+            console.error(`ThreadExportService: Failed to copy thread:`, error);
+            new Notice("Failed to copy thread to clipboard");
+        }
+    }
+
+    /**
+     * Replace embeds of markdown notes with the embedded note's content, or
+     * with the embedded heading's or block's section.
+     * Only one level deep, so embeds inside embedded notes are kept as-is.
+     */
+    private async resolveEmbeds(content: string, sourcePath: string): Promise<string> {
+        const embeds = new Map<string, string>();
+
+        for (const match of content.matchAll(WIKILINK_REGEX)) {
+            const [full, bang, linkpath, subpath] = match;
+            if (!bang || embeds.has(full)) continue;
+
+            const target = this.app.metadataCache.getFirstLinkpathDest(linkpath, sourcePath);
+            if (!(target instanceof TFile) || target.extension !== "md") continue;
+
+            const embedded = await this.readEmbed(target, subpath);
+            if (embedded !== null) embeds.set(full, embedded);
+        }
+
+        return content.replace(WIKILINK_REGEX, (full) => embeds.get(full) ?? full);
+    }
+
+    /**
+     * Read what an embed shows: the note's body, or the section of a heading or block.
+     *
+     * @param target - The embedded note
+     * @param subpath - The embed's heading or block reference, e.g. "#Intro" or "#^abc123"
+     * @returns The embedded markdown, or null if the section doesn't exist
+     */
+    private async readEmbed(target: TFile, subpath: string | undefined): Promise<string | null> {
+        if (!subpath) {
+            return (await extractNoteContent(this.app, target.path)).content;
+        }
+
+        const cache = this.app.metadataCache.getFileCache(target);
+        const section = cache ? resolveSubpath(cache, subpath.startsWith("#") ? subpath : `#${subpath}`) : null;
+        if (!section) return null;
+
+        const data = await this.app.vault.cachedRead(target);
+        return data.slice(section.start.offset, section.end?.offset ?? data.length).trim();
+    }
+
+    /**
+     * Rewrite links to other notes of the same thread so they point inside the document.
+     * With heading separators they become heading links; otherwise the note
+     * is inline anyway, so the link is reduced to its text.
+     */
+    private rewriteThreadLinks(
+        content: string,
+        sourcePath: string,
+        threadPaths: Set<string>,
+        separator: ExportSeparator
+    ): string {
+        return content.replace(WIKILINK_REGEX, (full, bang: string, linkpath: string, subpath: string | undefined, alias: string | undefined) => {
+            if (bang || !linkpath) return full;
+
+            const target = this.app.metadataCache.getFirstLinkpathDest(linkpath, sourcePath);
+            if (!target || !threadPaths.has(target.path)) return full;
+
+            const display = alias ?? linkpath;
+            return separator === "heading"
+                ? `[[#${getNoteName(target.path)}|${display}]]`
+                : display;
+        });
+    }
+}
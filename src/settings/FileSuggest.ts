@@ -0,0 +1,44 @@
+import { AbstractInputSuggest, App, TFile } from "obsidian";
+
+/**
+ * Markdown file suggestion component for settings UI.
+ * 
+ * Extends AbstractInputSuggest to provide autocomplete for note paths
+ * in the vault. Used in the settings tab for selecting note templates
+ * and thread roots.
+ */
+export class FileSuggest extends AbstractInputSuggest<TFile> {
+    constructor(app: App, inputEl: HTMLInputElement) {
+        super(app, inputEl);
+    }
+
+    /**
+     * Get suggestions matching the input query.
+     * Filters markdown files by path, case-insensitive.
+     */
+    getSuggestions(query: string): TFile[] {
+        const lowerQuery = query.toLowerCase();
+        return this.app.vault.getMarkdownFiles().filter(file =>
+            file.path.toLowerCase().includes(lowerQuery)
+        );
+    }
+
+    /**
+     * Render a single suggestion in the dropdown.
+     */
+    renderSuggestion(file: TFile, el: HTMLElement): void {
+        el.setText(file.path);
+    }
+
+    /**
+     * Handle selection of a suggestion.
+     * Updates the input element with the selected file path.
+     */
+    selectSuggestion(file: TFile): void {
+        // Use inherited textInputEl from AbstractInputSuggest
+        const inputEl = this.textInputEl as HTMLInputElement;
+        inputEl.value = file.path;
+        inputEl.trigger("input");
+        this.close();
+    }
+}
@@ -1,5 +1,8 @@
 import { App, PluginSettingTab, Setting } from 'obsidian';
+import { FileSuggest } from './FileSuggest';
 import { FolderSuggest } from './FolderSuggest';
+import { DEFAULT_SETTINGS, DeleteBehavior, ExportSeparator, NoteTemplateRule, QuickCreateTrigger } from './ThreadsSettings';
+import { debounce } from '../utility/debounce';
 import type ThreadsPlugin from '../main';
 
 /**
@@ -9,6 +12,9 @@ import type ThreadsPlugin from '../main';
 export class ThreadsSettingTab extends PluginSettingTab {
     plugin: ThreadsPlugin;
 
+    /** Rebuilding is expensive, so wait until the user stops typing a field name */
+    private debouncedRebuild = debounce(() => this.plugin.rebuildGraph(), 1000);
+
     constructor(app: App, plugin: ThreadsPlugin) {
         super(app, plugin);
         this.plugin = plugin;
@@ -34,5 +40,312 @@ export class ThreadsSettingTab extends PluginSettingTab {
                 // Attach folder suggestion
                 new FolderSuggest(this.app, text.inputEl);
             });
+
+        // Naming new notes
+        new Setting(containerEl)
+            .setName('Filename template')
+            .setDesc('Name of new notes. Tokens: {{date}} or {{date:YYYY-MM-DD}}, {{time}}, {{timestamp}}, {{root}} (title of the thread\'s first note), {{parent}} (title of the previous note), {{index}} (position in the thread), {{slug}} (first line of the note).')
+            .addText(text => {
+                text.setPlaceholder(DEFAULT_SETTINGS.filenameTemplate)
+                    .setValue(this.plugin.settings.filenameTemplate)
+                    .onChange(async (value) => {
+                        this.plugin.settings.filenameTemplate = value.trim() || DEFAULT_SETTINGS.filenameTemplate;
+                        this.plugin.noteCreationService.setFilenameTemplate(this.plugin.settings.filenameTemplate);
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        new Setting(containerEl)
+            .setName('Rename from first heading')
+            .setDesc('Rename a new note after its first heading once you continue writing below it. A number is added if the name is taken.')
+            .addToggle(toggle => {
+                toggle.setValue(this.plugin.settings.autoRenameFromHeading)
+                    .onChange(async (value) => {
+                        this.plugin.settings.autoRenameFromHeading = value;
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        // Quick create
+        new Setting(containerEl)
+            .setName('Quick create')
+            .setDesc('What creates the next note while typing at the end of a note (desktop only). The "Continue thread" command works with every option.')
+            .addDropdown(dropdown => {
+                dropdown.addOption('blank-lines', 'Blank lines')
+                    .addOption('sentinel', 'Text line')
+                    .addOption('off', 'Off')
+                    .setValue(this.plugin.settings.quickCreateTrigger)
+                    .onChange(async (value) => {
+                        this.plugin.settings.quickCreateTrigger = value as QuickCreateTrigger;
+                        await this.updateQuickCreateTrigger();
+                        this.display();
+                    });
+            });
+
+        if (this.plugin.settings.quickCreateTrigger === 'blank-lines') {
+            new Setting(containerEl)
+                .setName('Number of newlines')
+                .setDesc('How many times to press Enter at the end of a note.')
+                .addSlider(slider => {
+                    slider.setLimits(2, 6, 1)
+                        .setValue(this.plugin.settings.quickCreateBlankLines)
+                        .setDynamicTooltip()
+                        .onChange(async (value) => {
+                            this.plugin.settings.quickCreateBlankLines = value;
+                            await this.updateQuickCreateTrigger();
+                        });
+                });
+        }
+
+        if (this.plugin.settings.quickCreateTrigger === 'sentinel') {
+            new Setting(containerEl)
+                .setName('Trigger text')
+                .setDesc('Type this on its own line at the end of a note and press Enter.')
+                .addText(text => {
+                    text.setPlaceholder(DEFAULT_SETTINGS.quickCreateSentinel)
+                        .setValue(this.plugin.settings.quickCreateSentinel)
+                        .onChange(async (value) => {
+                            this.plugin.settings.quickCreateSentinel = value.trim() || DEFAULT_SETTINGS.quickCreateSentinel;
+                            await this.updateQuickCreateTrigger();
+                        });
+                });
+        }
+
+        // Rendering long threads
+        new Setting(containerEl)
+            .setName('Notes rendered around the active note')
+            .setDesc('How many notes before and after the active note are loaded right away. The others load as you scroll to them. Lower this if long threads are slow to open.')
+            .addSlider(slider => {
+                slider.setLimits(1, 50, 1)
+                    .setValue(this.plugin.settings.renderWindowSize)
+                    .setDynamicTooltip()
+                    .onChange(async (value) => {
+                        this.plugin.settings.renderWindowSize = value;
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        // Link field names
+        new Setting(containerEl)
+            .setName('Previous note field')
+            .setDesc('Frontmatter key that links a note to the note before it, e.g. prev, parent or up.')
+            .addText(text => {
+                text.setPlaceholder(DEFAULT_SETTINGS.prevField)
+                    .setValue(this.plugin.settings.prevField)
+                    .onChange(async (value) => {
+                        this.plugin.settings.prevField = value.trim() || DEFAULT_SETTINGS.prevField;
+                        await this.updateLinkFields();
+                    });
+            });
+
+        new Setting(containerEl)
+            .setName('Next note field')
+            .setDesc('Optional frontmatter key that links a note to the note(s) after it. Leave empty to only use the previous note field.')
+            .addText(text => {
+                text.setPlaceholder('e.g., next')
+                    .setValue(this.plugin.settings.nextField)
+                    .onChange(async (value) => {
+                        this.plugin.settings.nextField = value.trim();
+                        await this.updateLinkFields();
+                    });
+            });
+
+        // Deleting notes
+        new Setting(containerEl)
+            .setName('When a note is deleted')
+            .setDesc('What happens to the notes that came after a deleted note, or a note moved into an untracked folder.')
+            .addDropdown(dropdown => {
+                dropdown.addOption('heal', 'Re-point them to the note before it')
+                    .addOption('ask', 'Ask every time')
+                    .addOption('delete-subthread', 'Delete them too')
+                    .addOption('orphan', 'Leave their links')
+                    .setValue(this.plugin.settings.deleteBehavior)
+                    .onChange(async (value) => {
+                        this.plugin.settings.deleteBehavior = value as DeleteBehavior;
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        new Setting(containerEl)
+            .setName('Untracked folders')
+            .setDesc('Comma-separated folders whose notes are not part of threads, e.g. an archive. Moving a note into one of them takes it out of its thread like deleting it.')
+            .addText(text => {
+                text.setPlaceholder('e.g., archive, templates')
+                    .setValue(this.plugin.settings.untrackedFolders.join(', '))
+                    .onChange(async (value) => {
+                        this.plugin.settings.untrackedFolders = value.split(',').map(folder => folder.trim()).filter(folder => folder !== '');
+                        this.plugin.graphService.setUntrackedFolders(this.plugin.settings.untrackedFolders);
+                        await this.plugin.saveSettings();
+                        this.debouncedRebuild();
+                    });
+            });
+
+        // Splitting notes
+        new Setting(containerEl)
+            .setName('Split marker')
+            .setDesc('Put this on its own line wherever a note should be cut by the "Split note into thread at markers" command.')
+            .addText(text => {
+                text.setPlaceholder(DEFAULT_SETTINGS.splitMarker)
+                    .setValue(this.plugin.settings.splitMarker)
+                    .onChange(async (value) => {
+                        this.plugin.settings.splitMarker = value.trim() || DEFAULT_SETTINGS.splitMarker;
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        // Note templates
+        new Setting(containerEl).setName('Templates').setHeading();
+
+        new Setting(containerEl)
+            .setName('Default template')
+            .setDesc('Note whose frontmatter and content are added to every new note. Use {{parent}}, {{root}}, {{index}}, {{date}} and {{title}} in it. Leave empty for no template.')
+            .addText(text => {
+                text.setPlaceholder('e.g., templates/thread note.md')
+                    .setValue(this.plugin.settings.defaultNoteTemplate)
+                    .onChange(async (value) => {
+                        this.plugin.settings.defaultNoteTemplate = value.trim();
+                        await this.updateNoteTemplates();
+                    });
+                new FileSuggest(this.app, text.inputEl);
+            });
+
+        new Setting(containerEl)
+            .setName('Inherited properties')
+            .setDesc('Comma-separated frontmatter keys copied from the previous note into new notes, e.g. tags, project. Lists are combined with the template\'s.')
+            .addText(text => {
+                text.setPlaceholder('e.g., tags, project')
+                    .setValue(this.plugin.settings.inheritedKeys.join(', '))
+                    .onChange(async (value) => {
+                        this.plugin.settings.inheritedKeys = value.split(',').map(key => key.trim()).filter(key => key !== '');
+                        await this.updateNoteTemplates();
+                    });
+            });
+
+        this.plugin.settings.noteTemplates.forEach((rule, index) => this.displayTemplateRule(containerEl, rule, index));
+
+        new Setting(containerEl)
+            .setDesc('Use another template for new notes in a folder or in a thread. A thread\'s template wins over a folder\'s.')
+            .addButton(button => {
+                button.setButtonText('Add template')
+                    .onClick(async () => {
+                        const rule: NoteTemplateRule = { scope: 'folder', match: '', template: '' };
+                        this.plugin.settings.noteTemplates = [...this.plugin.settings.noteTemplates, rule];
+                        await this.updateNoteTemplates();
+                        this.display();
+                    });
+            });
+
+        // Thread export
+        new Setting(containerEl).setName('Export').setHeading();
+
+        new Setting(containerEl)
+            .setName('Separator between notes')
+            .setDesc('What to put between notes when a thread is exported as one document.')
+            .addDropdown(dropdown => {
+                dropdown.addOption('rule', 'Horizontal rule')
+                    .addOption('heading', 'Heading with note title')
+                    .addOption('none', 'Nothing')
+                    .setValue(this.plugin.settings.exportSeparator)
+                    .onChange(async (value) => {
+                        this.plugin.settings.exportSeparator = value as ExportSeparator;
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        new Setting(containerEl)
+            .setName('Include embedded notes')
+            .setDesc('Replace embedded notes with their content.')
+            .addToggle(toggle => {
+                toggle.setValue(this.plugin.settings.exportResolveEmbeds)
+                    .onChange(async (value) => {
+                        this.plugin.settings.exportResolveEmbeds = value;
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        new Setting(containerEl)
+            .setName('Rewrite links within the thread')
+            .setDesc('Turn links to other notes of the thread into links to their section of the document (with heading separators) or plain text.')
+            .addToggle(toggle => {
+                toggle.setValue(this.plugin.settings.exportRewriteLinks)
+                    .onChange(async (value) => {
+                        this.plugin.settings.exportRewriteLinks = value;
+                        await this.plugin.saveSettings();
+                    });
+            });
+    }
+
+    /**
+     * Show one template rule: what it applies to, the template, and a remove button.
+     */
+    private displayTemplateRule(containerEl: HTMLElement, rule: NoteTemplateRule, index: number): void {
+        new Setting(containerEl)
+            .addDropdown(dropdown => {
+                dropdown.addOption('folder', 'Folder')
+                    .addOption('root', 'Thread')
+                    .setValue(rule.scope)
+                    .onChange(async (value) => {
+                        rule.scope = value as NoteTemplateRule['scope'];
+                        await this.updateNoteTemplates();
+                        this.display();
+                    });
+            })
+            .addText(text => {
+                text.setPlaceholder(rule.scope === 'folder' ? 'Folder' : "Thread's first note")
+                    .setValue(rule.match)
+                    .onChange(async (value) => {
+                        rule.match = value.trim();
+                        await this.updateNoteTemplates();
+                    });
+                if (rule.scope === 'folder') {
+                    new FolderSuggest(this.app, text.inputEl);
+                } else {
+                    new FileSuggest(this.app, text.inputEl);
+                }
+            })
+            .addText(text => {
+                text.setPlaceholder('Template')
+                    .setValue(rule.template)
+                    .onChange(async (value) => {
+                        rule.template = value.trim();
+                        await this.updateNoteTemplates();
+                    });
+                new FileSuggest(this.app, text.inputEl);
+            })
+            .addExtraButton(button => {
+                button.setIcon('trash')
+                    .setTooltip('Remove template')
+                    .onClick(async () => {
+                        this.plugin.settings.noteTemplates = this.plugin.settings.noteTemplates.filter((_, i) => i !== index);
+                        await this.updateNoteTemplates();
+                        this.display();
+                    });
+            });
+    }
+
+    /**
+     * Save the quick-create trigger and pass it to the detector.
+     */
+    private async updateQuickCreateTrigger(): Promise<void> {
+        this.plugin.updateQuickCreateTrigger();
+        await this.plugin.saveSettings();
+    }
+
+    /**
+     * Save the note template settings and pass them to the template service.
+     */
+    private async updateNoteTemplates(): Promise<void> {
+        this.plugin.noteTemplateService.setOptions(this.plugin.getNoteTemplateOptions());
+        await this.plugin.saveSettings();
+    }
+
+    /**
+     * Save the link field names and rebuild the graph with them.
+     */
+    private async updateLinkFields(): Promise<void> {
+        const { prevField, nextField } = this.plugin.settings;
+        this.plugin.graphService.setLinkFields({ prev: prevField, next: nextField });
+        await this.plugin.saveSettings();
+        this.debouncedRebuild();
     }
 }
@@ -2,18 +2,107 @@
  * Plugin settings interface and defaults for Threads plugin.
  */
 
+/**
+ * What to put between notes when a thread is exported as one document.
+ * - rule: a horizontal rule
+ * - heading: a heading with the note's title
+ * - none: a blank line
+ */
+export type ExportSeparator = 'rule' | 'heading' | 'none';
+
+/**
+ * What makes typing at the end of a note create the next note.
+ * - blank-lines: a number of consecutive newlines at the end of the note
+ * - sentinel: a line with the sentinel text, followed by a newline
+ * - off: no automatic trigger (use the "Continue thread" command)
+ */
+export type QuickCreateTrigger = 'blank-lines' | 'sentinel' | 'off';
+
+/**
+ * What happens to the notes that followed a note when it is deleted or moved
+ * into an untracked folder.
+ * - heal: re-point them at the note's own previous notes
+ * - ask: show which notes would be re-pointed and let the user choose
+ * - delete-subthread: delete every note that only continues from it, replies included
+ * - orphan: leave them linking to the missing note
+ */
+export type DeleteBehavior = 'heal' | 'ask' | 'delete-subthread' | 'orphan';
+
+/**
+ * A template note applied to new notes of a folder or a thread.
+ */
+export type NoteTemplateRule = {
+    /** folder: new notes created in the folder or its subfolders. root: new notes of the thread starting at a note. */
+    scope: 'folder' | 'root';
+    /** The folder path, or the path of the thread's first note */
+    match: string;
+    /** Path of the template note */
+    template: string;
+};
+
 /**
  * Configuration options for the Threads plugin.
  */
 export interface ThreadsSettings {
     /** Folder path for new notes. Empty string means use same folder as current note. */
     newNotesFolder: string;
+    /** Name of new notes; supports {{date}}, {{time}}, {{timestamp}}, {{root}}, {{index}} and {{slug}}. */
+    filenameTemplate: string;
+    /** Rename new notes after their first heading once they have content. */
+    autoRenameFromHeading: boolean;
+    /** Templates for new notes, per folder or per thread. A thread's template wins over a folder's. */
+    noteTemplates: NoteTemplateRule[];
+    /** Template for new notes no rule applies to. Empty string means no template. */
+    defaultNoteTemplate: string;
+    /** Frontmatter keys copied from the previous note into new notes, e.g. tags. */
+    inheritedKeys: string[];
+    /** What creates the next note while typing at the end of a note (desktop only). */
+    quickCreateTrigger: QuickCreateTrigger;
+    /** Number of consecutive newlines for the blank-lines trigger. */
+    quickCreateBlankLines: number;
+    /** Line of text for the sentinel trigger. */
+    quickCreateSentinel: string;
+    /** Number of notes before and after the active note whose editors are created right away. */
+    renderWindowSize: number;
+    /** Frontmatter key that points to the previous note(s). */
+    prevField: string;
+    /** Frontmatter key that points to the next note(s). Empty string disables it. */
+    nextField: string;
+    /** Separator placed between notes when exporting a thread. */
+    exportSeparator: ExportSeparator;
+    /** Replace embeds of notes (![[Note]]) with their content when exporting. */
+    exportResolveEmbeds: boolean;
+    /** Rewrite links to notes of the same thread into links within the exported document. */
+    exportRewriteLinks: boolean;
+    /** Line that marks where to cut a note when splitting it at markers. */
+    splitMarker: string;
+    /** What happens to the notes that followed a deleted note. */
+    deleteBehavior: DeleteBehavior;
+    /** Folders whose notes are not part of threads, e.g. an archive. */
+    untrackedFolders: string[];
 }
 
 /**
  * Default values for plugin settings.
  */
 export const DEFAULT_SETTINGS: ThreadsSettings = {
-    newNotesFolder: ''
+    newNotesFolder: '',
+    filenameTemplate: 'Untitled-{{timestamp}}',
+    autoRenameFromHeading: false,
+    noteTemplates: [],
+    defaultNoteTemplate: '',
+    inheritedKeys: [],
+    quickCreateTrigger: 'blank-lines',
+    quickCreateBlankLines: 3,
+    quickCreateSentinel: '---next',
+    renderWindowSize: 10,
+    prevField: 'prev',
+    nextField: '',
+    exportSeparator: 'rule',
+    exportResolveEmbeds: false,
+    exportRewriteLinks: true,
+    splitMarker: '%%split%%',
+    deleteBehavior: 'heal',
+    untrackedFolders: []
 };
 
@@ -6,19 +6,21 @@
  */
 
 // Graph types
-export type { ChainGraph, ChainNodeAttributes, ChainEdgeAttributes, ChainEdge } from '../graph/GraphBuilder';
-export type { ChainSegment } from '../graph/BranchDetector';
+export type { ChainGraph, ChainNodeAttributes, ChainEdgeAttributes, ChainEdge, LinkFields } from '../graph/GraphBuilder';
+export type { ChainSegment, ReplyNode } from '../graph/BranchDetector';
 
 // Settings types
-export type { ThreadsSettings } from '../settings/ThreadsSettings';
+export type { ThreadsSettings, DeleteBehavior, ExportSeparator, QuickCreateTrigger } from '../settings/ThreadsSettings';
 
 // Service types - export the classes themselves since they're used as types too
 export type { GraphService } from '../services/GraphService';
 export type { NoteCreationService } from '../services/NoteCreationService';
-export type { EmptyLineDetector } from '../services/EmptyLineDetector';
+export type { QuickCreateDetector } from '../services/QuickCreateDetector';
+export type { ThreadExportService, ExportOptions } from '../services/ThreadExportService';
 
 // View types
 export type { EmbeddableMarkdownEditor } from '../views/embeddededitor';
+export type { ThreadExplorerView } from '../views/ThreadExplorerView';
 
 /**
  * Cleanup function type for chain view rendering.
@@ -5,7 +5,7 @@
  * 
  * @param fn - The function to debounce
  * @param delay - The number of milliseconds to delay
- * @returns A debounced version of the function
+ * @returns A debounced version of the function, with `cancel()` to drop a pending call
  * 
  * @example
  * const debouncedSave = debounce((data) => save(data), 300);
@@ -15,13 +15,14 @@
 export const debounce = <T extends (...args: any[]) => any>(
     fn: T,
     delay: number
-): ((...args: Parameters<T>) => void) => {
+): ((...args: Parameters<T>) => void) & { cancel: () => void } => {
     let timeoutId: ReturnType<typeof setTimeout>;
 
-    return (...args: Parameters<T>) => {
+    const debounced = (...args: Parameters<T>) => {
         clearTimeout(timeoutId);
         timeoutId = setTimeout(() => fn(...args), delay);
     };
+    return Object.assign(debounced, { cancel: () => clearTimeout(timeoutId) });
 };
 
 /**
@@ -0,0 +1,101 @@
+/**
+ * One line of a line-based diff.
+ * "removed" lines are only in the old text, "added" lines only in the new text.
+ */
+export type DiffLine = {
+    type: "unchanged" | "removed" | "added";
+    text: string;
+};
+
+/**
+ * Compute a line-based diff between two texts using the longest common subsequence.
+ * Lines are compared exactly; the result lists removed lines before added ones
+ * wherever a block changed.
+ *
+ * @param oldText - The original text
+ * @param newText - The changed text
+ * @returns The lines of both texts in order, marked as unchanged, removed or added
+ *
+ * @example
+ * diffLines("a\nb", "a\nc");
+ * // [{ type: "unchanged", text: "a" }, { type: "removed", text: "b" }, { type: "added", text: "c" }]
+ */
+export const diffLines = (oldText: string, newText: string): DiffLine[] => {
+    const oldLines = oldText.split("\n");
+    const newLines = newText.split("\n");
+
+    // Skip the common head and tail so only the changed middle goes through the LCS table
+    let start = 0;
+    while (start < oldLines.length && start < newLines.length && oldLines[start] === newLines[start]) {
+        start++;
+    }
+    let oldEnd = oldLines.length;
+    let newEnd = newLines.length;
+    while (oldEnd > start && newEnd > start && oldLines[oldEnd - 1] === newLines[newEnd - 1]) {
+        oldEnd--;
+        newEnd--;
+    }
+
+    const oldMiddle = oldLines.slice(start, oldEnd);
+    const newMiddle = newLines.slice(start, newEnd);
+
+    // lcs[i][j] = length of the longest common subsequence of oldMiddle[i..] and newMiddle[j..]
+    const lcs: number[][] = Array.from({ length: oldMiddle.length + 1 }, () => new Array(newMiddle.length + 1).fill(0));
+    for (let i = oldMiddle.length - 1; i >= 0; i--) {
+        for (let j = newMiddle.length - 1; j >= 0; j--) {
+            lcs[i][j] = oldMiddle[i] === newMiddle[j]
+                ? lcs[i + 1][j + 1] + 1
+                : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    const result: DiffLine[] = oldLines.slice(0, start).map(text => ({ type: "unchanged", text }));
+
+    let i = 0;
+    let j = 0;
+    while (i < oldMiddle.length || j < newMiddle.length) {
+        if (i < oldMiddle.length && j < newMiddle.length && oldMiddle[i] === newMiddle[j]) {
+            result.push({ type: "unchanged", text: oldMiddle[i] });
+            i++;
+            j++;
+        } else if (j >= newMiddle.length || (i < oldMiddle.length && lcs[i + 1][j] >= lcs[i][j + 1])) {
+            result.push({ type: "removed", text: oldMiddle[i] });
+            i++;
+        } else {
+            result.push({ type: "added", text: newMiddle[j] });
+            j++;
+        }
+    }
+
+    for (const text of oldLines.slice(oldEnd)) {
+        result.push({ type: "unchanged", text });
+    }
+    return result;
+};
+
+/**
+ * Find the single range that turns one text into another, by skipping their
+ * common prefix and suffix. Replacing only that range keeps cursors and
+ * selections outside of it in place.
+ *
+ * @param oldText - The current text
+ * @param newText - The text to change it to
+ * @returns The range of `oldText` to replace and what to insert there
+ */
+export const getChangedRange = (oldText: string, newText: string): { from: number; to: number; insert: string } => {
+    let from = 0;
+    while (from < oldText.length && from < newText.length && oldText[from] === newText[from]) {
+        from++;
+    }
+
+    let suffix = 0;
+    while (
+        suffix < oldText.length - from &&
+        suffix < newText.length - from &&
+        oldText[oldText.length - 1 - suffix] === newText[newText.length - 1 - suffix]
+    ) {
+        suffix++;
+    }
+
+    return { from, to: oldText.length - suffix, insert: newText.slice(from, newText.length - suffix) };
+};
@@ -0,0 +1,96 @@
+import { parseLinktext } from "obsidian";
+
+/**
+ * A link read from a frontmatter value, split into the note it points to
+ * and the section of that note.
+ */
+export type ParsedLink = {
+    /** The link path, e.g. "Note" or "folder/Note.md" */
+    linkpath: string;
+    /** Heading or block reference including "#", e.g. "#Intro" or "#^abc123"; empty for the whole note */
+    subpath: string;
+};
+
+/**
+ * Parse a single frontmatter value as a link to a note.
+ *
+ * Supported syntaxes:
+ * - Wikilinks: `[[Note]]`, `[[Note|Alias]]`, `[[Note#Heading]]`, `[[Note#^block|Alias]]`, `![[Note]]`
+ * - Markdown links: `[Alias](Note.md)`, `[Alias](folder/My%20Note.md#Heading)`, `[Alias](<My Note.md>)`
+ * - Bare paths: `Note`, `folder/Note.md`, `Note#Heading`
+ *
+ * External URLs are not links to notes and are ignored.
+ *
+ * @param value - The raw string from frontmatter
+ * @returns The parsed link, or null if the value isn't a link to a note
+ *
+ * @example
+ * parseLink("[[Chapter 1#Ending|the end]]"); // { linkpath: "Chapter 1", subpath: "#Ending" }
+ */
+export const parseLink = (value: string): ParsedLink | null => {
+    const text = value.trim();
+    if (!text) return null;
+
+    const wikilink = text.match(/^!?\[\[([^\]]+)\]\]$/);
+    if (wikilink) {
+        // The alias comes after the first pipe (escaped as \| inside tables)
+        return fromLinktext(wikilink[1].split(/\\?\|/)[0]);
+    }
+
+    const markdownLink = text.match(/^!?\[[^\]]*\]\(\s*(<[^>]*>|[^)\s]*)(?:\s+"[^"]*")?\s*\)$/);
+    if (markdownLink) {
+        const target = markdownLink[1].replace(/^<|>$/g, "");
+        if (isExternalUrl(target)) return null;
+        return fromLinktext(decodeTarget(target));
+    }
+
+    // Anything else with link syntax in it is not a single link to a note
+    if (text.includes("[[") || isExternalUrl(text)) return null;
+    return fromLinktext(text);
+};
+
+/**
+ * Parse a frontmatter field into links. The field may hold a single value,
+ * a YAML list, or nested lists; values that aren't links are skipped.
+ *
+ * @param fieldValue - The parsed frontmatter value
+ */
+export const parseLinks = (fieldValue: unknown): ParsedLink[] => {
+    return flatten(fieldValue)
+        .filter((value): value is string => typeof value === "string")
+        .map(parseLink)
+        .filter((link): link is ParsedLink => link !== null);
+};
+
+/**
+ * Split link text into path and subpath, dropping an empty path (a link to a
+ * heading in the same note isn't a link to another note).
+ */
+const fromLinktext = (linktext: string): ParsedLink | null => {
+    const { path, subpath } = parseLinktext(linktext.trim());
+    if (!path) return null;
+    return { linkpath: path, subpath };
+};
+
+/**
+ * Flatten a frontmatter value that may be a (nested) list into its items.
+ */
+const flatten = (value: unknown): unknown[] => {
+    return Array.isArray(value) ? value.reduce<unknown[]>((items, item) => items.concat(flatten(item)), []) : [value];
+};
+
+/**
+ * Decode a percent-encoded markdown link target, keeping malformed encodings as written.
+ */
+const decodeTarget = (target: string): string => {
+    try {
+        return decodeURI(target);
+    } catch (error) {
+        return target;
+    }
+};
+
+/**
+ * Whether a link target is a URL (http:, obsidian:, mailto:, ...) rather than a vault path.
+ */
+const isExternalUrl = (target: string): boolean => /^[a-z][a-z0-9+.-]*:/i.test(target);
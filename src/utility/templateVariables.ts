@@ -0,0 +1,89 @@
+import { moment } from "obsidian";
+
+/**
+ * Values available to filename and note templates.
+ */
+export type TemplateVariables = {
+    /** Title of the thread's first note */
+    root: string;
+    /** Title of the new note's prev note */
+    parent: string;
+    /** 1-based position of the new note in its thread */
+    index: number;
+    /** First line of the new note's content ("" for an empty note) */
+    firstLine: string;
+    /** Title of the new note (not available in filename templates) */
+    title?: string;
+};
+
+/** Matches {{token}} and {{token:argument}} */
+const TOKEN_REGEX = /\{\{\s*(\w+)(?::([^}]*))?\s*\}\}/g;
+
+/**
+ * Replace template tokens in a text.
+ *
+ * Supported tokens:
+ * - {{date}} / {{date:FORMAT}}: the current date, as a moment.js format (default YYYY-MM-DD)
+ * - {{time}} / {{time:FORMAT}}: the current time (default HHmmss)
+ * - {{timestamp}}: milliseconds since the epoch
+ * - {{root}}: title of the thread's first note
+ * - {{parent}}: title of the new note's prev note
+ * - {{index}}: position of the note in its thread
+ * - {{slug}}: slug of the note's first line
+ * - {{title}}: title of the new note
+ * Unknown tokens (and {{title}} when it isn't known yet) are kept as-is.
+ *
+ * @param text - The text containing tokens
+ * @param variables - The values for the thread tokens
+ */
+export const substituteVariables = (text: string, variables: TemplateVariables): string => {
+    const now = moment();
+    return text.replace(TOKEN_REGEX, (match, token: string, argument: string | undefined) => {
+        switch (token.toLowerCase()) {
+            case "date": return now.format(argument || "YYYY-MM-DD");
+            case "time": return now.format(argument || "HHmmss");
+            case "timestamp": return String(now.valueOf());
+            case "root": return variables.root;
+            case "parent": return variables.parent;
+            case "index": return String(variables.index);
+            case "slug": return slugify(variables.firstLine);
+            case "title": return variables.title ?? match;
+            default: return match;
+        }
+    });
+};
+
+/**
+ * Render a filename template into a note name (without extension).
+ * See `substituteVariables` for the supported tokens.
+ *
+ * @param template - The filename template
+ * @param variables - The values for the thread tokens
+ * @returns A name safe to use as a filename, "Untitled" if the template renders empty
+ */
+export const renderFilenameTemplate = (template: string, variables: TemplateVariables): string => {
+    return sanitizeFilename(substituteVariables(template, variables)) || "Untitled";
+};
+
+/**
+ * Turn text into a lowercase, dash-separated slug (letters and digits of any script).
+ */
+export const slugify = (text: string): string => {
+    return text
+        .toLowerCase()
+        .replace(/[^\p{L}\p{N}]+/gu, "-")
+        .replace(/^-+|-+$/g, "")
+        .slice(0, 60)
+        .replace(/-+$/, "");
+};
+
+/**
+ * Remove characters that can't appear in a filename or break wikilinks.
+ */
+export const sanitizeFilename = (name: string): string => {
+    return name
+        .replace(/[\\/:*?"<>|#^[\]]/g, "")
+        .replace(/\s+/g, " ")
+        .trim()
+        .replace(/^\.+/, "");
+};
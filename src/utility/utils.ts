@@ -1,13 +1,59 @@
-import { App, TFile } from "obsidian";
+import { App, normalizePath, TFile } from "obsidian";
 
-export const updateFrontmatter = async (app: App, file: TFile, newPrevLinks: string[]) => {
+/**
+ * Get a note's display name (basename without extension) from its path.
+ * Works for paths of files that no longer exist.
+ * 
+ * @param path - The note path, e.g. "folder/Note.md"
+ */
+export const getNoteName = (path: string): string => {
+    return path.replace(/\.md$/, '').split('/').pop() || path;
+};
+
+/**
+ * Get the link text to write into frontmatter for a note path.
+ * This is the note's basename, or as much of its path as needed when
+ * another note has the same name (following the vault's link format setting).
+ * Falls back to the basename taken from the path when the file no longer exists,
+ * or to the node key itself for links to notes that were never created.
+ * 
+ * @param app - The Obsidian App instance
+ * @param path - The path of the note to link to
+ * @param sourcePath - The path of the note the link is written in
+ */
+export const getLinkName = (app: App, path: string, sourcePath: string): string => {
+    const file = app.vault.getAbstractFileByPath(path);
+    if (file instanceof TFile) {
+        return app.metadataCache.fileToLinktext(file, sourcePath, true);
+    }
+    return path.endsWith(".md") ? getNoteName(path) : path;
+};
+
+/**
+ * Find a file path that doesn't exist yet, appending " 1", " 2", ... to the name if needed.
+ * 
+ * @param app - The Obsidian App instance
+ * @param folder - The folder to create the file in ("" for the vault root)
+ * @param name - The file name without extension
+ * @param extension - The file extension without dot
+ */
+export const getAvailablePath = (app: App, folder: string, name: string, extension = "md"): string => {
+    const base = folder ? `${folder}/${name}` : name;
+    let path = normalizePath(`${base}.${extension}`);
+    for (let i = 1; app.vault.getAbstractFileByPath(path); i++) {
+        path = normalizePath(`${base} ${i}.${extension}`);
+    }
+    return path;
+};
+
+export const updateFrontmatter = async (app: App, file: TFile, newPrevLinks: string[], field = "prev") => {
     await app.fileManager.processFrontMatter(file, (frontmatter: any) => {
         if (newPrevLinks.length === 0) {
-            delete frontmatter["prev"];
+            delete frontmatter[field];
         } else if (newPrevLinks.length === 1) {
-            frontmatter["prev"] = `[[${newPrevLinks[0]}]]`;
+            frontmatter[field] = `[[${newPrevLinks[0]}]]`;
         } else {
-            frontmatter["prev"] = newPrevLinks.map(link => `[[${link}]]`);
+            frontmatter[field] = newPrevLinks.map(link => `[[${link}]]`);
         }
     });
 };
@@ -0,0 +1,122 @@
+import { ChainSegment, countReplyTree, ReplyNode } from "../graph/BranchDetector";
+import { extractNoteContent, getFirstLine } from "./ContentExtractor";
+import { NOTE_ICON_SVG } from "./ChainElements";
+import { getNoteName } from "../utility/utils";
+import type ChainPlugin from "../main";
+
+/**
+ * Creates the collapsible reply list for a branch segment.
+ *
+ * The header shows how many replies branch off the parent note. Each reply is
+ * rendered as a stub (title, first line, nested reply count) that opens the
+ * note on click, with a "Switch" button that makes the reply part of the
+ * main line.
+ *
+ * @param plugin - The plugin instance
+ * @param segment - The branch segment (its path is the parent note)
+ * @param isBeforeActive - Whether the branch is above the active note. Switching
+ *                         there leaves the active note's line, so the reply is opened instead.
+ */
+export function createBranchElement(plugin: ChainPlugin, segment: ChainSegment, isBeforeActive: boolean): HTMLElement {
+    const replies = segment.replies ?? [];
+    const parentPath = segment.path;
+
+    const container = document.createElement("div");
+    container.className = "chain-branch-container";
+    container.toggleClass("is-collapsed", !plugin.expandedBranches.has(parentPath));
+
+    const header = container.createDiv({ cls: "chain-branch-header" });
+    header.createSpan({ cls: "chain-branch-toggle" });
+    header.createSpan({ text: replies.length === 1 ? "1 reply" : `${replies.length} replies` });
+    header.addEventListener("click", (e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        const collapsed = container.hasClass("is-collapsed");
+        container.toggleClass("is-collapsed", !collapsed);
+        if (collapsed) {
+            plugin.expandedBranches.add(parentPath);
+        } else {
+            plugin.expandedBranches.delete(parentPath);
+        }
+    });
+
+    const list = container.createDiv({ cls: "chain-branch-replies" });
+    for (const reply of replies) {
+        renderReply(plugin, list, reply, [parentPath], isBeforeActive);
+    }
+
+    return container;
+}
+
+/**
+ * Render a reply stub and, below it, its nested replies.
+ *
+ * @param ancestors - The branch parent followed by every reply above this one
+ */
+function renderReply(
+    plugin: ChainPlugin,
+    parentEl: HTMLElement,
+    reply: ReplyNode,
+    ancestors: string[],
+    isBeforeActive: boolean
+): void {
+    const replyEl = parentEl.createDiv({ cls: "chain-reply" });
+    const stub = replyEl.createDiv({ cls: "chain-reply-stub" });
+
+    const icon = stub.createDiv({ cls: "chain-reply-icon" });
+    icon.innerHTML = NOTE_ICON_SVG;
+
+    const text = stub.createDiv({ cls: "chain-reply-text" });
+    const title = text.createDiv({ cls: "chain-reply-title", text: getNoteName(reply.path) });
+    if (reply.subpath) {
+        // The reply is to a heading or block of its parent rather than the whole note
+        title.createSpan({ cls: "chain-reply-section", text: ` · ${reply.subpath.replace(/^#\^?/, "")}` });
+    }
+    const excerpt = text.createDiv({ cls: "chain-reply-excerpt" });
+
+    // Fill in the first line lazily so the chain renders without waiting on reads
+    extractNoteContent(plugin.app, reply.path).then(({ content }) => {
+        excerpt.setText(getFirstLine(content));
+    }).catch(error => {
+        // The reply was renamed or deleted while rendering: only show its name
+        console.error(`Failed to read the reply ${reply.path}:`, error);
+        excerpt.remove();
+    });
+
+    const nestedCount = countReplyTree(reply) - 1;
+    if (nestedCount > 0) {
+        stub.createSpan({ cls: "chain-reply-count", text: String(nestedCount) });
+    }
+
+    const switchButton = stub.createEl("button", { cls: "chain-reply-switch", text: "Switch" });
+    switchButton.setAttribute("aria-label", "Follow this branch in the thread");
+    switchButton.addEventListener("click", async (e) => {
+        e.preventDefault();
+        e.stopPropagation();
+
+        // Select every step from the branch parent down to this reply
+        const path = [...ancestors, reply.path];
+        for (let i = 0; i < path.length - 1; i++) {
+            plugin.branchSelections.set(path[i], path[i + 1]);
+        }
+
+        if (isBeforeActive) {
+            await plugin.app.workspace.openLinkText(reply.path, "", false);
+        } else {
+            await plugin.renderChainView();
+        }
+    });
+
+    stub.addEventListener("click", (e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        plugin.app.workspace.openLinkText(reply.path, "", false);
+    });
+
+    if (reply.replies.length > 0) {
+        const children = replyEl.createDiv({ cls: "chain-reply-children" });
+        for (const child of reply.replies) {
+            renderReply(plugin, children, child, [...ancestors, reply.path], isBeforeActive);
+        }
+    }
+}
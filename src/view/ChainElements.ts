@@ -0,0 +1,146 @@
+import { Menu } from "obsidian";
+import { getMainLineNext } from "../graph/BranchDetector";
+import { canMoveNote, createMissingNote, insertNoteAfter, mergeWithNextNote, moveNoteBy } from "../commands/ThreadActions";
+import { getNoteName } from "../utility/utils";
+import type ChainPlugin from "../main";
+
+/** SVG icon for the note navigation button */
+export const NOTE_ICON_SVG = `<svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M6 22a2 2 0 0 1-2-2V4a2 2 0 0 1 2-2h8a2.4 2.4 0 0 1 1.704.706l3.588 3.588A2.4 2.4 0 0 1 20 8v12a2 2 0 0 1-2 2z"/><path d="M14 2v5a1 1 0 0 0 1 1h5"/><path d="M10 9H8"/><path d="M16 13H8"/><path d="M16 17H8"/></svg>`;
+
+/** SVG icon for the create note button */
+export const CREATE_ICON_SVG = `<svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M12 5v14"/><path d="M5 12h14"/></svg>`;
+
+/** Selector matching every element the chain view injects into a MarkdownView */
+export const INJECTED_SELECTOR = ".chain-thread-container, .chain-branch-container, .chain-create-button-container, .chain-insert-divider, .chain-missing-note";
+
+/**
+ * Create the clickable file icon shown to the left of an injected note.
+ * Clicking it opens the note in the current leaf; right-clicking shows the
+ * note's thread actions.
+ *
+ * @param plugin - The plugin instance
+ * @param path - The path of the note the icon navigates to
+ */
+export function createNoteIcon(plugin: ChainPlugin, path: string): HTMLElement {
+    const noteIcon = document.createElement("div");
+    noteIcon.className = "chain-note-icon";
+    noteIcon.innerHTML = NOTE_ICON_SVG;
+    noteIcon.addEventListener("click", (e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        plugin.app.workspace.openLinkText(path, "", false);
+    });
+    noteIcon.addEventListener("contextmenu", (e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        createNoteMenu(plugin, path).showAtMouseEvent(e);
+    });
+    return noteIcon;
+}
+
+/**
+ * Build the context menu with thread actions for a note.
+ *
+ * @param plugin - The plugin instance
+ * @param path - The note the actions apply to
+ */
+function createNoteMenu(plugin: ChainPlugin, path: string): Menu {
+    const menu = new Menu();
+    const hasNext = getMainLineNext(plugin.graph, path, plugin.branchSelections) !== null;
+
+    menu.addItem(item => item
+        .setTitle("Insert note after")
+        .setIcon("plus")
+        .onClick(() => insertNoteAfter(plugin, path)));
+    menu.addItem(item => item
+        .setTitle("Merge with next note")
+        .setIcon("merge")
+        .setDisabled(!hasNext)
+        .onClick(() => mergeWithNextNote(plugin, path)));
+
+    menu.addSeparator();
+    menu.addItem(item => item
+        .setTitle("Move up")
+        .setIcon("arrow-up")
+        .setDisabled(!canMoveNote(plugin, path, -1))
+        .onClick(() => moveNoteBy(plugin, path, -1)));
+    menu.addItem(item => item
+        .setTitle("Move down")
+        .setIcon("arrow-down")
+        .setDisabled(!canMoveNote(plugin, path, 1))
+        .onClick(() => moveNoteBy(plugin, path, 1)));
+
+    return menu;
+}
+
+/**
+ * Create the divider between two notes of the main line, with a button
+ * (shown on hover) that inserts a new note between them.
+ *
+ * @param plugin - The plugin instance
+ * @param path - The path of the note above the divider (the new note's prev)
+ */
+export function createInsertDivider(plugin: ChainPlugin, path: string): HTMLElement {
+    const divider = document.createElement("div");
+    divider.className = "chain-insert-divider";
+
+    const insertButton = document.createElement("button");
+    insertButton.className = "chain-insert-button";
+    insertButton.setAttribute("aria-label", "Insert note here");
+    insertButton.innerHTML = CREATE_ICON_SVG;
+    insertButton.addEventListener("click", async (e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        await insertNoteAfter(plugin, path);
+    });
+
+    divider.appendChild(insertButton);
+    return divider;
+}
+
+/**
+ * Create the "Continue thread" button container.
+ *
+ * @param plugin - The plugin instance
+ * @param path - The path of the last note in the chain (the new note's prev)
+ */
+export function createCreateButton(plugin: ChainPlugin, path: string): HTMLElement {
+    const buttonContainer = document.createElement("div");
+    buttonContainer.className = "chain-create-button-container";
+
+    const createButton = document.createElement("button");
+    createButton.className = "chain-create-button";
+    createButton.innerHTML = `${CREATE_ICON_SVG}<span>Continue thread</span>`;
+    createButton.addEventListener("click", async (e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        await plugin.noteCreationService.createChainedNote(path);
+    });
+
+    buttonContainer.appendChild(createButton);
+    return buttonContainer;
+}
+
+/**
+ * Create the placeholder shown in place of a note that is linked to but
+ * doesn't exist, with a button that creates it.
+ *
+ * @param plugin - The plugin instance
+ * @param linkTarget - The missing note's graph key (its link text or former path)
+ * @param sourcePath - The path of a note linking to it (decides where the note is created)
+ */
+export function createMissingNotePlaceholder(plugin: ChainPlugin, linkTarget: string, sourcePath: string): HTMLElement {
+    const placeholder = document.createElement("div");
+    placeholder.className = "chain-missing-note";
+    placeholder.createSpan({ cls: "chain-missing-note-name", text: getNoteName(linkTarget) });
+    placeholder.createSpan({ text: "Missing note" });
+
+    const createButton = placeholder.createEl("button", { cls: "chain-missing-note-create", text: "Create it" });
+    createButton.addEventListener("click", async (e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        await createMissingNote(plugin, linkTarget, sourcePath);
+    });
+
+    return placeholder;
+}
@@ -1,20 +1,28 @@
 import { Component, MarkdownView } from "obsidian";
 import type ChainPlugin from "../main";
-import { renderChainView } from "../renderChainView";
+import { getRenderStats, renderChainView } from "../renderChainView";
+import { getLiveEditorCount } from "./EditorFactory";
 
 /**
  * Manages chain view renderers for each MarkdownView.
- * 
+ *
  * This class ensures that:
  * 1. Each MarkdownView has at most one active chain renderer
- * 2. Renderers are properly cleaned up when views are closed
+ * 2. Renderers are properly cleaned up when views are closed or the plugin unloads
  * 3. No duplicate renders occur for the same view
+ *
+ * Re-rendering a view reconciles it with what is already mounted (see
+ * `renderChainView`), so the previous render is not cleaned up first.
  */
 export class ChainViewManager extends Component {
     private plugin: ChainPlugin;
 
-    // Track active renderers by view - WeakMap allows GC when view is destroyed
-    private renderers: WeakMap<MarkdownView, CleanupFunction> = new WeakMap();
+    // Track active renderers by view; entries are removed when the view unloads
+    private renderers: Map<MarkdownView, CleanupFunction> = new Map();
+
+    // Render in progress for each view, and the render queued after it
+    private rendering: Map<MarkdownView, Promise<void>> = new Map();
+    private queued: Map<MarkdownView, Promise<void>> = new Map();
 
     // Track views we've already hooked into for cleanup
     private hookedViews: WeakSet<MarkdownView> = new WeakSet();
@@ -26,20 +34,26 @@ export class ChainViewManager extends Component {
 
     /**
      * Render the chain view for a specific MarkdownView.
-     * Handles cleanup of previous render and lifecycle binding.
+     * If the view is being rendered already, it is rendered once more after
+     * that, however many renders were requested in the meantime.
      */
     async renderForView(view: MarkdownView): Promise<void> {
-        // Clean up any existing render for this view
-        this.cleanupView(view);
-
-        // Render and store cleanup function
-        const cleanup = await renderChainView(this.plugin, view);
-        if (cleanup) {
-            this.renderers.set(view, cleanup);
+        const running = this.rendering.get(view);
+        if (running) {
+            let queued = this.queued.get(view);
+            if (!queued) {
+                queued = running.then(() => {
+                    this.queued.delete(view);
+                    return this.renderForView(view);
+                });
+                this.queued.set(view, queued);
+            }
+            return queued;
         }
 
-        // Hook into view lifecycle for cleanup (only once per view)
-        this.hookViewLifecycle(view);
+        const render = this.render(view).finally(() => this.rendering.delete(view));
+        this.rendering.set(view, render);
+        return render;
     }
 
     /**
@@ -71,6 +85,35 @@ export class ChainViewManager extends Component {
         }
     }
 
+    /**
+     * Describe the tracked views and how many embedded editors are alive.
+     * Editors that are alive but not mounted in any view have leaked.
+     */
+    getDebugInfo(): { views: { path: string; notes: number; editors: number }[]; liveEditors: number } {
+        const views = [...this.renderers.keys()].map(view => ({
+            path: view.file?.path ?? "(no file)",
+            ...getRenderStats(view),
+        }));
+        return { views, liveEditors: getLiveEditorCount() };
+    }
+
+    /**
+     * Render a view and store its cleanup function.
+     */
+    private async render(view: MarkdownView): Promise<void> {
+        try {
+            const cleanup = await renderChainView(this.plugin, view);
+            if (cleanup) {
+                this.renderers.set(view, cleanup);
+            }
+        } catch (e) {
+            console.error("Error rendering chain view:", e);
+        }
+
+        // Hook into view lifecycle for cleanup (only once per view)
+        this.hookViewLifecycle(view);
+    }
+
     /**
      * Hook into the view's lifecycle to clean up when the view is closed.
      * This prevents memory leaks from orphaned editors.
@@ -85,7 +128,6 @@ export class ChainViewManager extends Component {
         // Wrap the view's onunload to clean up our renderer
         const originalUnload = view.onunload?.bind(view);
         view.onunload = () => {
-            console.log("View unloading, cleaning up chain renderer:", view.file?.path);
             this.cleanupView(view);
 
             // Call original unload
@@ -99,10 +141,9 @@ export class ChainViewManager extends Component {
      * Clean up all renderers when the manager is unloaded.
      */
     onunload(): void {
-        // WeakMap doesn't have iteration, so we can't clean all
-        // But since we're unloading, the plugin is being disabled
-        // and everything will be garbage collected anyway
-        console.log("ChainViewManager unloading");
+        for (const view of [...this.renderers.keys()]) {
+            this.cleanupView(view);
+        }
     }
 }
 
@@ -1,65 +1,86 @@
 import { App, Notice, TFile } from "obsidian";
 
+/** Regex to match YAML frontmatter (content between --- and --- at the start of file) */
+const YAML_REGEX = /^---\n([\s\S]*?)\n---/;
+
 /**
  * Helper function to read a note's content and strip away the YAML frontmatter.
  * We want to display ONLY the markdown content in the embedded editor, not the metadata.
  * 
  * @param app - The Obsidian App instance
  * @param path - The file path of the note to read
+ * @param fresh - Read from disk instead of the cache (e.g. to check for changes before saving)
  * @returns The clean markdown content without frontmatter, and the original YAML
  */
-export async function extractNoteContent(app: App, path: string): Promise<{ content: string; yaml: string }> {
+export async function extractNoteContent(app: App, path: string, fresh = false): Promise<{ content: string; yaml: string }> {
     const file = app.vault.getAbstractFileByPath(path);
     if (!(file instanceof TFile)) {
         return { content: "", yaml: "" };
     }
 
     // Read the file from cache for performance
-    const rawContent = await app.vault.cachedRead(file);
+    const rawContent = fresh ? await app.vault.read(file) : await app.vault.cachedRead(file);
+    return splitFrontmatter(rawContent);
+}
 
-    // Regex to match YAML frontmatter (content between --- and --- at the start of file)
-    const yamlRegex = /^---\n([\s\S]*?)\n---/;
-    const match = rawContent.match(yamlRegex);
+/**
+ * Split a file's raw content into its YAML frontmatter and its trimmed markdown content.
+ * 
+ * @param rawContent - The complete file content
+ */
+export function splitFrontmatter(rawContent: string): { content: string; yaml: string } {
+    const match = rawContent.match(YAML_REGEX);
     const yaml = match ? match[1] : "";
 
     // Replace frontmatter with empty string and trim whitespace
-    const sanitized = rawContent.replace(yamlRegex, "").trim();
+    const sanitized = rawContent.replace(YAML_REGEX, "").trim();
 
     return { content: sanitized, yaml };
 }
 
+/**
+ * Get the first non-empty line of a note's content, without heading, list or quote markers.
+ * Used as a short excerpt wherever a note is shown as a single line.
+ * 
+ * @param content - The markdown content (without frontmatter)
+ */
+export function getFirstLine(content: string): string {
+    const line = content.split("\n").find(l => l.trim() !== "") ?? "";
+    return line.replace(/^\s*(#{1,6}\s+|[-*+]\s+|>\s*)/, "").trim();
+}
+
 /**
  * Saves editor content back to the file, preserving YAML frontmatter.
+ * The frontmatter is read when the file is written, so changes made to it
+ * since the note was loaded (e.g. a rewritten prev link) are kept.
  * 
  * @param app - The Obsidian App instance
  * @param path - The file path to save to
  * @param newContent - The new markdown content (without frontmatter)
- * @param originalYaml - The original YAML frontmatter to preserve
+ * @returns Whether the file was saved
  */
 export async function saveEditorContent(
     app: App,
     path: string,
-    newContent: string,
-    originalYaml: string
-): Promise<void> {
+    newContent: string
+): Promise<boolean> {
     try {
         // Get the file from vault
         const file = app.vault.getAbstractFileByPath(path);
         if (!(file instanceof TFile)) {
             new Notice(`Error: Could not find file ${path}`);
-            return;
+            return false;
         }
 
-        // Reconstruct full content with YAML frontmatter
-        const fullContent = reconstructFileContent(newContent, originalYaml);
-
-        // Write back to file
-        await app.vault.modify(file, fullContent);
+        // Reconstruct full content with the file's current YAML frontmatter
+        await app.vault.process(file, (data) => reconstructFileContent(newContent, splitFrontmatter(data).yaml));
 
         console.log(`Saved changes to ${path}`);
+        return true;
     } catch (error) {
         console.error(`Error saving file ${path}:`, error);
         new Notice(`Failed to save changes to ${path}`);
+        return false;
     }
 }
 
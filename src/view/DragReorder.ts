@@ -0,0 +1,134 @@
+import { setIcon } from "obsidian";
+import { getMainLine } from "../graph/BranchDetector";
+import { moveNoteAfter } from "../commands/ThreadActions";
+import type ChainPlugin from "../main";
+
+/** Drag data type carrying the path of the dragged note */
+const DRAG_MIME = "application/x-threads-note";
+
+/** Drop listeners currently attached to each .cm-sizer, so a re-render replaces them */
+const attachedListeners: WeakMap<HTMLElement, () => void> = new WeakMap();
+
+/**
+ * Create the drag handle shown to the left of an injected note.
+ * Dragging it onto another note of the thread moves the note there.
+ *
+ * @param path - The path of the note the handle moves
+ */
+export function createDragHandle(path: string): HTMLElement {
+    const handle = document.createElement("div");
+    handle.className = "chain-drag-handle";
+    handle.draggable = true;
+    handle.setAttribute("aria-label", "Drag to reorder");
+    setIcon(handle, "grip-vertical");
+
+    handle.addEventListener("dragstart", (e) => {
+        if (!e.dataTransfer) return;
+        e.dataTransfer.setData(DRAG_MIME, path);
+        e.dataTransfer.effectAllowed = "move";
+
+        const container = handle.closest(".chain-thread-container");
+        if (container instanceof HTMLElement) {
+            e.dataTransfer.setDragImage(container, 0, 0);
+            container.addClass("chain-dragging");
+        }
+    });
+    handle.addEventListener("dragend", () => {
+        handle.closest(".chain-thread-container")?.removeClass("chain-dragging");
+    });
+
+    return handle;
+}
+
+/**
+ * Let notes dragged by their handle be dropped onto the notes of the chain view.
+ *
+ * Drop targets are the injected note containers (identified by `data-path`)
+ * and the active note's own content. Dropping on the upper half of a note
+ * moves the dragged note before it, on the lower half after it.
+ *
+ * @param plugin - The plugin instance
+ * @param cmSizer - The .cm-sizer holding the chain view
+ * @param activePath - The path of the note rendered by the MarkdownView itself
+ * @returns A function that removes the listeners
+ */
+export function enableDragReorder(plugin: ChainPlugin, cmSizer: HTMLElement, activePath: string): () => void {
+    attachedListeners.get(cmSizer)?.();
+
+    let indicated: HTMLElement | null = null;
+    const clearIndicator = () => {
+        indicated?.removeClasses(["chain-drop-before", "chain-drop-after"]);
+        indicated = null;
+    };
+
+    // Find the note under the pointer and whether the drop goes before it
+    const getDropTarget = (e: DragEvent) => {
+        if (!(e.target instanceof Element)) return null;
+
+        // Embedded editors have their own .cm-contentContainer, so look for a note container first
+        const container = e.target.closest(".chain-thread-container[data-path]")
+            ?? e.target.closest(".cm-contentContainer");
+        if (!(container instanceof HTMLElement) || container.parentElement !== cmSizer) return null;
+
+        const path = container.dataset.path ?? activePath;
+        const rect = container.getBoundingClientRect();
+        return { container, path, before: e.clientY < rect.top + rect.height / 2 };
+    };
+
+    const onDragOver = (e: DragEvent) => {
+        if (!e.dataTransfer?.types.includes(DRAG_MIME)) return;
+        const target = getDropTarget(e);
+        if (!target) return;
+
+        e.preventDefault();
+        e.stopPropagation();
+        e.dataTransfer.dropEffect = "move";
+
+        if (indicated !== target.container) clearIndicator();
+        indicated = target.container;
+        target.container.toggleClass("chain-drop-before", target.before);
+        target.container.toggleClass("chain-drop-after", !target.before);
+    };
+
+    const onDrop = (e: DragEvent) => {
+        if (!e.dataTransfer?.types.includes(DRAG_MIME)) return;
+
+        // Keep CodeMirror from inserting the drop as text
+        e.preventDefault();
+        e.stopPropagation();
+
+        const draggedPath = e.dataTransfer.getData(DRAG_MIME);
+        const target = getDropTarget(e);
+        clearIndicator();
+        if (!draggedPath || !target || target.path === draggedPath) return;
+
+        // "Before a note" is "after the note above it", or the start of the thread
+        const mainLine = getMainLine(plugin.graph, draggedPath, plugin.branchSelections);
+        const targetIndex = mainLine.indexOf(target.path);
+        if (targetIndex === -1) return;
+        const afterPath = target.before ? mainLine[targetIndex - 1] ?? null : target.path;
+
+        moveNoteAfter(plugin, draggedPath, afterPath);
+    };
+
+    const onDragLeave = (e: DragEvent) => {
+        if (!(e.relatedTarget instanceof Node) || !cmSizer.contains(e.relatedTarget)) {
+            clearIndicator();
+        }
+    };
+
+    // Capture phase, so the editors inside the chain view don't handle the drag first
+    cmSizer.addEventListener("dragover", onDragOver, true);
+    cmSizer.addEventListener("drop", onDrop, true);
+    cmSizer.addEventListener("dragleave", onDragLeave);
+
+    const detach = () => {
+        clearIndicator();
+        cmSizer.removeEventListener("dragover", onDragOver, true);
+        cmSizer.removeEventListener("drop", onDrop, true);
+        cmSizer.removeEventListener("dragleave", onDragLeave);
+        attachedListeners.delete(cmSizer);
+    };
+    attachedListeners.set(cmSizer, detach);
+    return detach;
+}
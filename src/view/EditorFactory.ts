@@ -1,35 +1,126 @@
-import { App, Platform } from "obsidian";
+import { App, Platform, setIcon, TAbstractFile, TFile } from "obsidian";
 import { EmbeddableMarkdownEditor } from "../views/embeddededitor";
-import { saveEditorContent } from "./ContentExtractor";
+import { extractNoteContent, saveEditorContent } from "./ContentExtractor";
+import { SaveConflictModal } from "../modals/SaveConflictModal";
+import { getChangedRange } from "../utility/diff";
 import type ChainPlugin from "../main";
 
+/** Embedded editors created and not cleaned up yet, to spot leaks */
+const liveEditors: Set<EmbeddableMarkdownEditor> = new Set();
+
 /**
  * Creates a single embedded editor instance and injects it into the DOM.
  * Returns the created editor component for lifecycle management.
  * 
+ * The editor follows changes made to the note elsewhere (another pane, sync):
+ * they are applied right away while the editor has no unsaved edits, and
+ * otherwise flagged with a conflict indicator until the user picks a version.
+ * 
  * @param plugin - The plugin instance (for accessing services)
  * @param container - The HTML element where this editor should be placed
  * @param content - The markdown content to display
  * @param sourcePath - The path of the note being displayed (for navigation)
- * @param originalYaml - The original YAML frontmatter to preserve when saving
  * @returns The created editor component
  */
 export async function createEmbeddedEditor(
     plugin: ChainPlugin,
     container: HTMLElement,
     content: string,
-    sourcePath: string,
-    originalYaml: string
+    sourcePath: string
 ): Promise<EmbeddableMarkdownEditor> {
     const app = plugin.app;
 
-    // Track the original content and debounce timer
+    // Track the original content (the body as last loaded from or saved to disk) and debounce timer
     let originalContent = content;
     let debounceTimer: ReturnType<typeof setTimeout> | null = null;
     let isDirty = false;
+    let isUnloaded = false;
+    let isResolvingConflict = false;
+    let isApplyingExternalChange = false;
+    let conflictIndicator: HTMLElement | null = null;
+
+    // Replace the editor's content with the file's, without saving it back.
+    // Only the changed range is replaced, so the cursor and folds elsewhere stay put
+    const setContent = (newContent: string) => {
+        originalContent = newContent;
+        const { cm } = editor.editor;
+        isApplyingExternalChange = true;
+        try {
+            cm.dispatch({ changes: getChangedRange(cm.state.doc.toString(), newContent) });
+        } finally {
+            isApplyingExternalChange = false;
+        }
+        isDirty = false;
+        setConflict(false);
+    };
+
+    // Show or hide the indicator that the note changed elsewhere while it had unsaved edits
+    const setConflict = (hasConflict: boolean) => {
+        container.toggleClass("chain-has-conflict", hasConflict);
+        if (!hasConflict) {
+            conflictIndicator?.remove();
+            conflictIndicator = null;
+            return;
+        }
+        if (conflictIndicator) return;
+
+        conflictIndicator = createDiv({ cls: "chain-conflict-indicator", attr: { "aria-label": "Changed elsewhere. Click to compare and resolve" } });
+        setIcon(conflictIndicator, "alert-triangle");
+        conflictIndicator.addEventListener("click", () => save(editor.value));
+        container.prepend(conflictIndicator);
+    };
+
+    // Save the editor content below the note's current frontmatter
+    // (it may have changed since the editor was created, e.g. when the thread was reordered).
+    // If the body changed on disk too, the user picks which version to keep.
+    const save = async (newContent: string) => {
+        // A conflict is already being resolved for this editor
+        if (isResolvingConflict) return;
+
+        const { content: diskContent } = await extractNoteContent(app, sourcePath, true);
+        if (diskContent !== originalContent.trim() && diskContent !== newContent.trim()) {
+            isResolvingConflict = true;
+            const resolution = await new SaveConflictModal(app, sourcePath, diskContent, newContent).prompt();
+            isResolvingConflict = false;
+
+            if (resolution === "theirs") {
+                if (!isUnloaded) setContent(diskContent);
+                return;
+            }
+            // Closing the modal keeps the edits unsaved; the next save asks again
+            if (resolution !== "mine") return;
+        }
+
+        if (await saveEditorContent(app, sourcePath, newContent)) {
+            originalContent = newContent; // Update the baseline
+            isDirty = false;
+            setConflict(false);
+        }
+    };
+
+    // Follow changes made to the note outside this editor
+    const onModify = async (modified: TAbstractFile) => {
+        if (modified.path !== sourcePath || isUnloaded) return;
+
+        const { content: diskContent } = await extractNoteContent(app, sourcePath, true);
+        // Our own save, or only the frontmatter changed
+        if (isUnloaded || diskContent === originalContent.trim()) return;
+
+        if (diskContent === editor.value.trim()) {
+            // The file now matches the editor (e.g. the same edit was synced back)
+            originalContent = editor.value;
+            isDirty = false;
+            setConflict(false);
+        } else if (!isDirty) {
+            setContent(diskContent);
+        } else {
+            setConflict(true);
+        }
+    };
+    const modifyRef = app.vault.on("modify", onModify);
 
     // Debounced save function
-    const debouncedSave = async (newContent: string) => {
+    const debouncedSave = async () => {
         // Clear any existing timer
         if (debounceTimer) {
             clearTimeout(debounceTimer);
@@ -37,10 +128,9 @@ export async function createEmbeddedEditor(
 
         // Set a new timer to save after 2 seconds of inactivity
         debounceTimer = setTimeout(async () => {
+            const newContent = editor.value;
             if (isDirty && newContent !== originalContent) {
-                await saveEditorContent(app, sourcePath, newContent, originalYaml);
-                originalContent = newContent; // Update the baseline
-                isDirty = false;
+                await save(newContent);
             }
         }, 2000); // 2 second debounce
     };
@@ -50,37 +140,34 @@ export async function createEmbeddedEditor(
 
     // Instantiate the EmbeddableMarkdownEditor
     // This is our custom wrapper around Obsidian's internal editor
+    const file = app.vault.getAbstractFileByPath(sourcePath);
     const editor = new EmbeddableMarkdownEditor(app, editorContainer, {
         value: content,
+        file: file instanceof TFile ? file : undefined,
         onChange: (update) => {
+            if (!update.docChanged || isApplyingExternalChange) return;
+
             // Mark as dirty and trigger debounced save
-            const currentContent = editor.value;
-            if (currentContent !== originalContent) {
-                isDirty = true;
-
-                // Check for empty line pattern on desktop only
-                if (!Platform.isMobile && plugin.emptyLineDetector && plugin.emptyLineDetector.detectPattern(currentContent)) {
-                    // Remove pattern and save
-                    const cleanContent = plugin.emptyLineDetector.removePattern(currentContent);
-                    // Use 'any' cast because 'set' is inherited from dynamically resolved parent
-                    (editor as any).set(cleanContent);
-                    originalContent = cleanContent;
-                    isDirty = false;
-
-                    // Clear any pending save timer
-                    if (debounceTimer) {
-                        clearTimeout(debounceTimer);
-                        debounceTimer = null;
-                    }
-
-                    // Save immediately and create new note
-                    saveEditorContent(app, sourcePath, cleanContent, originalYaml).then(() => {
-                        plugin.noteCreationService.createChainedNote(sourcePath);
-                    });
-                } else {
-                    debouncedSave(currentContent);
-                }
+            isDirty = true;
+
+            // Check for the quick-create trigger on desktop only
+            const trigger = !Platform.isMobile && plugin.quickCreateDetector?.detect(update);
+            if (!trigger) {
+                debouncedSave();
+                return;
+            }
+
+            // Clear any pending save timer
+            if (debounceTimer) {
+                clearTimeout(debounceTimer);
+                debounceTimer = null;
             }
+
+            // Remove the trigger, then save immediately and create new note
+            plugin.quickCreateDetector.removeTrigger(update.view, trigger).then(async () => {
+                await save(editor.value);
+                await plugin.noteCreationService.createChainedNote(sourcePath);
+            });
         },
         onBlur: async (editor) => {
             // On blur, cancel any pending debounced save and save immediately if dirty
@@ -91,30 +178,45 @@ export async function createEmbeddedEditor(
 
             const currentContent = editor.value;
             if (isDirty && currentContent !== originalContent) {
-                await saveEditorContent(app, sourcePath, currentContent, originalYaml);
-                originalContent = currentContent;
-                isDirty = false;
+                await save(currentContent);
             }
         }
     });
 
     // Store cleanup function on the editor for later use
+    // Pending edits are saved right away instead of being dropped with the timer
     (editor as any)._chainCleanup = () => {
+        isUnloaded = true;
+        app.vault.offref(modifyRef);
+        setConflict(false);
         if (debounceTimer) {
             clearTimeout(debounceTimer);
             debounceTimer = null;
         }
+        const currentContent = editor.value;
+        if (isDirty && currentContent !== originalContent) {
+            save(currentContent);
+        }
     };
 
+    liveEditors.add(editor);
     return editor;
 }
 
+/**
+ * The number of embedded editors that were created and not cleaned up yet.
+ */
+export function getLiveEditorCount(): number {
+    return liveEditors.size;
+}
+
 /**
  * Cleans up an embedded editor instance.
  * 
  * @param editor - The editor to cleanup
  */
 export function cleanupEditor(editor: EmbeddableMarkdownEditor): void {
+    liveEditors.delete(editor);
     try {
         // Call custom cleanup first
         if ((editor as any)._chainCleanup) {
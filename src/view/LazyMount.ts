@@ -0,0 +1,124 @@
+import { App, TFile } from "obsidian";
+
+/** Rough height of one line of text in an embedded editor, in pixels */
+const LINE_HEIGHT = 26;
+
+/** Rough number of characters that fit on one line */
+const CHARS_PER_LINE = 70;
+
+/** Padding and borders of a note container, in pixels */
+const CONTAINER_PADDING = 70;
+
+/** How far outside the visible area placeholders start mounting, in pixels */
+const MOUNT_MARGIN = "800px 0px";
+
+/**
+ * Estimate the height of a note's embedded editor from its file size,
+ * so a placeholder takes about the same space until the note is mounted.
+ *
+ * @param app - The Obsidian App instance
+ * @param path - The note's path
+ * @returns The estimated height in pixels
+ */
+export function estimateNoteHeight(app: App, path: string): number {
+    const file = app.vault.getAbstractFileByPath(path);
+    const size = file instanceof TFile ? file.stat.size : 0;
+    const lines = Math.max(1, Math.ceil(size / CHARS_PER_LINE));
+    return Math.min(lines * LINE_HEIGHT, 4000) + CONTAINER_PADDING;
+}
+
+/**
+ * Mounts note containers once they scroll near the visible area.
+ *
+ * Each observed container holds a placeholder sized to the note's estimated
+ * height. When it comes within `MOUNT_MARGIN` of the scroller's viewport,
+ * the mount callback replaces the placeholder with the real editor. Mounting
+ * a note above the viewport keeps the visible content where it was.
+ */
+export class LazyMounter {
+    private observer: IntersectionObserver;
+    private pending: Map<Element, () => Promise<void>> = new Map();
+
+    /**
+     * @param scroller - The scrolling element of the MarkdownView (.cm-scroller)
+     */
+    constructor(private scroller: HTMLElement) {
+        this.observer = new IntersectionObserver(
+            (entries) => {
+                for (const entry of entries) {
+                    if (entry.isIntersecting) {
+                        this.mount(entry.target);
+                    }
+                }
+            },
+            { root: scroller, rootMargin: MOUNT_MARGIN }
+        );
+    }
+
+    /**
+     * Show a placeholder in a container and mount the note once it scrolls into view.
+     *
+     * @param container - The note container
+     * @param estimatedHeight - Height of the placeholder in pixels
+     * @param mount - Replaces the placeholder with the note's editor
+     */
+    observe(container: HTMLElement, estimatedHeight: number, mount: () => Promise<void>): void {
+        const placeholder = container.createDiv({ cls: "chain-note-placeholder" });
+        placeholder.style.height = `${estimatedHeight}px`;
+
+        this.pending.set(container, async () => {
+            await mount();
+            placeholder.remove();
+        });
+        this.observer.observe(container);
+    }
+
+    /**
+     * Whether a container still shows its placeholder.
+     */
+    isPending(container: HTMLElement): boolean {
+        return this.pending.has(container);
+    }
+
+    /**
+     * Mount a container's note right away, e.g. because it moved into the render window.
+     */
+    async mountNow(container: HTMLElement): Promise<void> {
+        await this.mount(container);
+    }
+
+    /**
+     * Stop observing a container that is being removed.
+     */
+    unobserve(container: HTMLElement): void {
+        this.pending.delete(container);
+        this.observer.unobserve(container);
+    }
+
+    /**
+     * Stop observing; notes that weren't mounted yet stay placeholders.
+     */
+    disconnect(): void {
+        this.observer.disconnect();
+        this.pending.clear();
+    }
+
+    /**
+     * Mount a container's note, keeping the scroll position stable if it is above the viewport.
+     */
+    private async mount(container: Element): Promise<void> {
+        const mount = this.pending.get(container);
+        if (!mount) return;
+        this.pending.delete(container);
+        this.observer.unobserve(container);
+
+        const isAbove = container.getBoundingClientRect().bottom <= this.scroller.getBoundingClientRect().top;
+        const heightBefore = container.getBoundingClientRect().height;
+
+        await mount();
+
+        if (isAbove) {
+            this.scroller.scrollTop += container.getBoundingClientRect().height - heightBefore;
+        }
+    }
+}
@@ -0,0 +1,123 @@
+import { Component, MarkdownRenderer, MarkdownView, TFile } from "obsidian";
+import { ChainSegment } from "../graph/BranchDetector";
+import { getLinkingNote } from "../graph/ChainQueries";
+import { extractNoteContent } from "./ContentExtractor";
+import { createCreateButton, createMissingNotePlaceholder, createNoteIcon } from "./ChainElements";
+import { createBranchElement } from "./BranchElement";
+import type ChainPlugin from "../main";
+
+/**
+ * Renders the chain into a MarkdownView that is in Reading (preview) mode.
+ *
+ * Reading view has no CodeMirror DOM, so instead of embedded editors we render
+ * each surrounding note as read-only markdown. Previous notes are inserted
+ * before `.markdown-preview-sizer` and next notes after it, so the thread
+ * reads as one continuous document.
+ *
+ * Obsidian virtualizes the sections inside the sizer and may replace them at
+ * any time, which is why we inject next to the sizer rather than into it.
+ *
+ * @param plugin - The plugin instance
+ * @param view - The view to render into (must be in preview mode)
+ * @param chainSegments - The rendering chain from `buildRenderingChain`
+ * @param currentPath - The path of the note shown by the view
+ * @returns A cleanup function, or undefined if the preview DOM was not found
+ */
+export async function renderPreviewChain(
+    plugin: ChainPlugin,
+    view: MarkdownView,
+    chainSegments: ChainSegment[],
+    currentPath: string
+): Promise<(() => void) | undefined> {
+    const previewView = view.containerEl.querySelector(".markdown-reading-view .markdown-preview-view") as HTMLElement | null;
+    const previewSizer = previewView?.querySelector(":scope > .markdown-preview-sizer");
+    if (!previewView || !previewSizer) return undefined;
+
+    // All rendered markdown is attached to this component so that
+    // post-processors and child components are unloaded on cleanup
+    const component = new Component();
+    component.load();
+    const createdContainers: HTMLElement[] = [];
+
+    const savedScrollTop = previewView.scrollTop;
+    const activeNoteIndex = chainSegments.findIndex(s => s.type === "note" && s.path === currentPath);
+
+    // Next notes are appended after the sizer in order, so we track the
+    // element to insert after as we go
+    let lastNextElement: Element = previewSizer;
+
+    for (let i = 0; i < chainSegments.length; i++) {
+        const segment = chainSegments[i];
+
+        if (segment.type === "create-button") {
+            const buttonContainer = createCreateButton(plugin, segment.path);
+            lastNextElement.after(buttonContainer);
+            lastNextElement = buttonContainer;
+            createdContainers.push(buttonContainer);
+            continue;
+        }
+
+        if (segment.type === "branch") {
+            const isBeforeActive = i < activeNoteIndex;
+            const branchContainer = createBranchElement(plugin, segment, isBeforeActive);
+            if (isBeforeActive) {
+                previewSizer.before(branchContainer);
+            } else {
+                lastNextElement.after(branchContainer);
+                lastNextElement = branchContainer;
+            }
+            createdContainers.push(branchContainer);
+            continue;
+        }
+
+        // Skip the active note itself (it's already rendered by Obsidian)
+        if (segment.path === currentPath) continue;
+
+        const isPrevNote = i < activeNoteIndex;
+
+        // Notes that are linked to but don't exist get a placeholder
+        if (!(plugin.app.vault.getAbstractFileByPath(segment.path) instanceof TFile)) {
+            const linkingPath = getLinkingNote(plugin.graph, segment.path) ?? currentPath;
+            const placeholder = createMissingNotePlaceholder(plugin, segment.path, linkingPath);
+            createdContainers.push(placeholder);
+            if (isPrevNote) {
+                previewSizer.before(placeholder);
+            } else {
+                lastNextElement.after(placeholder);
+                lastNextElement = placeholder;
+            }
+            continue;
+        }
+
+        const { content } = await extractNoteContent(plugin.app, segment.path);
+
+        const container = document.createElement("div");
+        container.className = `chain-thread-container chain-preview-container ${isPrevNote ? "chain-prev" : "chain-next"}`;
+        container.appendChild(createNoteIcon(plugin, segment.path));
+
+        const markdownEl = container.createDiv({ cls: "chain-preview-content markdown-rendered" });
+        await MarkdownRenderer.render(plugin.app, content, markdownEl, segment.path, component);
+        createdContainers.push(container);
+
+        if (isPrevNote) {
+            // Previous notes keep their chain order because we process them
+            // oldest-first and always insert directly before the sizer
+            previewSizer.before(container);
+        } else {
+            lastNextElement.after(container);
+            lastNextElement = container;
+        }
+    }
+
+    // Restore scroll position after DOM manipulation
+    requestAnimationFrame(() => {
+        previewView.scrollTop = savedScrollTop;
+    });
+
+    return () => {
+        component.unload();
+        for (const container of createdContainers) {
+            container.remove();
+        }
+    };
+}
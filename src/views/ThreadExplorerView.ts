@@ -0,0 +1,172 @@
+import { ItemView, moment, TFile, WorkspaceLeaf } from "obsidian";
+import { buildReplyTree, countReplyTree, ReplyNode } from "../graph/BranchDetector";
+import { getThreadRoots } from "../graph/ChainQueries";
+import { extractNoteContent, getFirstLine } from "../view/ContentExtractor";
+import { debounce } from "../utility/debounce";
+import { getNoteName } from "../utility/utils";
+import type ThreadsPlugin from "../main";
+
+export const THREAD_EXPLORER_VIEW_TYPE = "threads-explorer";
+
+/**
+ * A thread root with the data shown in its explorer row.
+ */
+type ThreadSummary = {
+    tree: ReplyNode;
+    length: number;
+    lastModified: number;
+};
+
+/**
+ * Sidebar view listing every thread in the vault.
+ *
+ * Each thread root is shown with its length, last-modified date and first
+ * line, and a collapsible tree of its branches. The list is rebuilt when the
+ * GraphService reports a change, not on every chain render.
+ */
+export class ThreadExplorerView extends ItemView {
+    private plugin: ThreadsPlugin;
+
+    /** Paths whose reply trees are expanded, kept across refreshes */
+    private expanded: Set<string> = new Set();
+
+    constructor(leaf: WorkspaceLeaf, plugin: ThreadsPlugin) {
+        super(leaf);
+        this.plugin = plugin;
+    }
+
+    getViewType(): string {
+        return THREAD_EXPLORER_VIEW_TYPE;
+    }
+
+    getDisplayText(): string {
+        return "Thread explorer";
+    }
+
+    getIcon(): string {
+        return "list-tree";
+    }
+
+    async onOpen(): Promise<void> {
+        const debouncedRefresh = debounce(() => this.refresh(), 300);
+        this.registerEvent(this.plugin.graphService.on("graph-updated", debouncedRefresh));
+        this.refresh();
+    }
+
+    /**
+     * Rebuild the list of threads from the current graph.
+     */
+    refresh(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass("threads-explorer");
+
+        const graph = this.plugin.graphService.graph;
+        const threads: ThreadSummary[] = getThreadRoots(graph).map(root => {
+            const tree = buildReplyTree(graph, root);
+            return {
+                tree,
+                length: countReplyTree(tree),
+                lastModified: this.getLastModified(tree)
+            };
+        });
+
+        if (threads.length === 0) {
+            contentEl.createDiv({ cls: "threads-explorer-empty", text: "No threads yet." });
+            return;
+        }
+
+        // Most recently active threads first
+        threads.sort((a, b) => b.lastModified - a.lastModified);
+
+        for (const thread of threads) {
+            this.renderThread(contentEl, thread);
+        }
+    }
+
+    /**
+     * Render a thread root row followed by its branch tree.
+     */
+    private renderThread(parentEl: HTMLElement, thread: ThreadSummary): void {
+        const { tree } = thread;
+        const threadEl = parentEl.createDiv({ cls: "threads-explorer-thread" });
+
+        const rowEl = this.renderRow(threadEl, tree);
+        const infoEl = rowEl.querySelector(".threads-explorer-info") as HTMLElement;
+
+        const meta = thread.lastModified > 0
+            ? `${thread.length} notes · ${moment(thread.lastModified).format("ll")}`
+            : `${thread.length} notes`;
+        infoEl.createDiv({ cls: "threads-explorer-meta", text: meta });
+
+        const excerptEl = infoEl.createDiv({ cls: "threads-explorer-excerpt" });
+        extractNoteContent(this.app, tree.path).then(({ content }) => {
+            excerptEl.setText(getFirstLine(content));
+        }).catch(error => {
+            // The note was renamed or deleted while rendering: keep the row without an excerpt
+            console.error(`ThreadExplorerView: Failed to read ${tree.path}:`, error);
+            excerptEl.remove();
+        });
+
+        this.renderReplies(threadEl, tree);
+    }
+
+    /**
+     * Render the collapsible list of replies below a node.
+     */
+    private renderReplies(parentEl: HTMLElement, node: ReplyNode): void {
+        if (node.replies.length === 0) return;
+
+        const childrenEl = parentEl.createDiv({ cls: "threads-explorer-children" });
+        childrenEl.toggleClass("is-collapsed", !this.expanded.has(node.path));
+
+        for (const reply of node.replies) {
+            const replyEl = childrenEl.createDiv({ cls: "threads-explorer-reply" });
+            this.renderRow(replyEl, reply);
+            this.renderReplies(replyEl, reply);
+        }
+    }
+
+    /**
+     * Render a single clickable row with a collapse toggle when the node has replies.
+     */
+    private renderRow(parentEl: HTMLElement, node: ReplyNode): HTMLElement {
+        const rowEl = parentEl.createDiv({ cls: "threads-explorer-row" });
+
+        const toggleEl = rowEl.createSpan({ cls: "threads-explorer-toggle" });
+        if (node.replies.length > 0) {
+            toggleEl.addClass("has-replies");
+            toggleEl.toggleClass("is-collapsed", !this.expanded.has(node.path));
+            toggleEl.addEventListener("click", (e) => {
+                e.stopPropagation();
+                const collapsed = !this.expanded.has(node.path);
+                if (collapsed) {
+                    this.expanded.add(node.path);
+                } else {
+                    this.expanded.delete(node.path);
+                }
+                toggleEl.toggleClass("is-collapsed", !collapsed);
+                const childrenEl = parentEl.querySelector(":scope > .threads-explorer-children");
+                childrenEl?.toggleClass("is-collapsed", !collapsed);
+            });
+        }
+
+        const infoEl = rowEl.createDiv({ cls: "threads-explorer-info" });
+        infoEl.createDiv({ cls: "threads-explorer-title", text: getNoteName(node.path) });
+
+        rowEl.addEventListener("click", () => {
+            this.app.workspace.openLinkText(node.path, "", false);
+        });
+
+        return rowEl;
+    }
+
+    /**
+     * Get the newest modification time of any note in the tree.
+     */
+    private getLastModified(node: ReplyNode): number {
+        const file = this.app.vault.getAbstractFileByPath(node.path);
+        const mtime = file instanceof TFile ? file.stat.mtime : 0;
+        return node.replies.reduce((latest, reply) => Math.max(latest, this.getLastModified(reply)), mtime);
+    }
+}
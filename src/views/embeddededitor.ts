@@ -8,11 +8,12 @@
  * 	 - Made editor settings fully optional
  * 	 - Allow all editor commands to function on this editor
  * 	 - Added typings for the editor(s) (will be added to obsidian-typings)
+ * 	 - Added the optional file the editor shows, so editor commands know which note they act on
  * Make sure to also check out the original source code here: https://github.com/mgmeyers/obsidian-kanban/blob/main/src/components/Editor/MarkdownEditor.tsx
  */
 //@ts-nocheck
 import {
-    App, Constructor, Keymap, Scope, ScrollableMarkdownEditor,
+    App, Constructor, Editor, Keymap, Scope, ScrollableMarkdownEditor,
     TFile, WidgetEditorView, WorkspaceLeaf,
 } from "obsidian";
 
@@ -61,6 +62,7 @@ interface MarkdownEditorProps {
     value?: string;
     cls?: string;
     placeholder?: string;
+    file?: TFile;
 
     onEnter: (editor: EmbeddableMarkdownEditor, mod: boolean, shift: boolean) => boolean;
     onEscape: (editor: EmbeddableMarkdownEditor) => void;
@@ -90,6 +92,8 @@ export class EmbeddableMarkdownEditor extends resolveEditorPrototype(app) implem
     options: MarkdownEditorProps;
     initial_value: string;
     scope: Scope;
+    /** The editor set up by the base class, with the CodeMirror view it wraps */
+    declare editor: Editor & { cm: EditorView };
 
     /**
      * Construct the editor
@@ -124,6 +128,8 @@ export class EmbeddableMarkdownEditor extends resolveEditorPrototype(app) implem
         // @ts-expect-error (editMode is normally a MarkdownSubView)
         this.owner.editMode = this;
         this.owner.editor = this.editor;
+        // Editor commands get the note they act on from `ctx.file`
+        if (options.file) this.owner.file = options.file;
 
         this.set(options.value || '');
 